@@ -36,6 +36,14 @@ module.exports = {
     node: true,
     es2022: true,
   },
+  overrides: [
+    {
+      files: ['**/*.test.ts', 'src/setupTests.ts'],
+      env: {
+        jest: true,
+      },
+    },
+  ],
   ignorePatterns: [
     'dist/',
     'node_modules/',
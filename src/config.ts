@@ -1,5 +1,7 @@
 import * as dotenv from 'dotenv';
-import { ServerConfig } from './types';
+import { homedir } from 'os';
+import { join } from 'path';
+import { AccountProfile, ServerConfig } from './types';
 
 // Load environment variables
 dotenv.config();
@@ -13,6 +15,11 @@ const DEFAULT_CONFIG: ServerConfig = {
   cache_max_size: 1000,
   rate_limit_requests: 100,
   rate_limit_window_ms: 60000, // 1 minute
+  bulk_concurrency: 5,
+  pagination_page_size: 100,
+  pagination_max_items: 5000,
+  resource_poll_interval_ms: 300000, // 5 minutes
+  session_idle_timeout_ms: 1800000, // 30 minutes
 };
 
 // Environment-based configuration
@@ -24,15 +31,128 @@ export const config: ServerConfig = {
   cache_max_size: parseInt(process.env.CACHE_MAX_SIZE || DEFAULT_CONFIG.cache_max_size.toString()),
   rate_limit_requests: parseInt(process.env.RATE_LIMIT_REQUESTS || DEFAULT_CONFIG.rate_limit_requests.toString()),
   rate_limit_window_ms: parseInt(process.env.RATE_LIMIT_WINDOW_MS || DEFAULT_CONFIG.rate_limit_window_ms.toString()),
+  bulk_concurrency: parseInt(process.env.BULK_CONCURRENCY || DEFAULT_CONFIG.bulk_concurrency.toString()),
+  pagination_page_size: parseInt(process.env.PAGINATION_PAGE_SIZE || DEFAULT_CONFIG.pagination_page_size.toString()),
+  pagination_max_items: parseInt(process.env.PAGINATION_MAX_ITEMS || DEFAULT_CONFIG.pagination_max_items.toString()),
+  resource_poll_interval_ms: parseInt(process.env.RESOURCE_POLL_INTERVAL_MS || DEFAULT_CONFIG.resource_poll_interval_ms.toString()),
+  session_idle_timeout_ms: parseInt(process.env.SESSION_IDLE_TIMEOUT_MS || DEFAULT_CONFIG.session_idle_timeout_ms.toString()),
 };
 
-// Authentication configuration
+// Authentication configuration (the password can come from LL_PASSWORD, a file or a helper command)
 export const authConfig = {
   username: process.env.LL_USERNAME,
   password: process.env.LL_PASSWORD,
+  password_file: process.env.LL_PASSWORD_FILE,
+  credential_helper: process.env.LL_CREDENTIAL_HELPER,
   token: process.env.LL_TOKEN,
 };
 
+// The account LL_USERNAME, LL_PASSWORD, ... and LL_TOKEN belong to
+export const DEFAULT_ACCOUNT = 'default';
+
+// Account profile variables: LL_ACCOUNT_<NAME>_<FIELD>
+const ACCOUNT_VARIABLE = /^LL_ACCOUNT_(.+?)_(USERNAME|PASSWORD_FILE|PASSWORD|CREDENTIAL_HELPER|TOKEN)$/;
+type AccountField = 'username' | 'password_file' | 'password' | 'credential_helper' | 'token';
+
+// Read named accounts from the environment. LL_USERNAME, LL_PASSWORD, ... make up the
+// "default" account (also present when nothing else is configured), and
+// LL_ACCOUNT_WORK_USERNAME, LL_ACCOUNT_WORK_PASSWORD, ... an account named "work"
+export function parseAccountProfiles(env: typeof process.env): Record<string, AccountProfile> {
+  const profiles: Record<string, AccountProfile> = {};
+  for (const [variable, value] of Object.entries(env)) {
+    const match = ACCOUNT_VARIABLE.exec(variable);
+    if (!match || !value) continue;
+
+    const name = match[1].toLowerCase();
+    profiles[name] = profiles[name] || { name, env_prefix: `LL_ACCOUNT_${match[1]}_` };
+    profiles[name][match[2].toLowerCase() as AccountField] = value;
+  }
+
+  const fields: AccountField[] = ['username', 'password', 'password_file', 'credential_helper', 'token'];
+  if (fields.some((field) => env[`LL_${field.toUpperCase()}`]) || Object.keys(profiles).length === 0) {
+    const profile: AccountProfile = { name: DEFAULT_ACCOUNT, env_prefix: 'LL_' };
+    for (const field of fields) {
+      profile[field] = env[`LL_${field.toUpperCase()}`];
+    }
+    profiles[DEFAULT_ACCOUNT] = profile;
+  }
+  return profiles;
+}
+
+// Account configuration: every named account, and the one used when a tool call names none
+export const accountConfig = {
+  profiles: parseAccountProfiles(process.env),
+  active: process.env.LL_ACTIVE_ACCOUNT?.toLowerCase(),
+};
+
+// Encrypted credential store configuration (enabled by setting a passphrase or key file)
+export const credentialStoreConfig = {
+  dir: process.env.LL_CREDENTIAL_STORE_DIR || join(homedir(), '.linklibrary-mcp'),
+  passphrase: process.env.LL_CREDENTIAL_STORE_PASSPHRASE,
+  key_file: process.env.LL_CREDENTIAL_STORE_KEY_FILE,
+};
+
+// Query parameters stripped from URLs before saving and comparing.
+// Entries ending in "*" match any parameter with that prefix.
+const DEFAULT_STRIP_PARAMS = [
+  'utm_*',
+  'fbclid',
+  'gclid',
+  'dclid',
+  'msclkid',
+  'mc_cid',
+  'mc_eid',
+  'igshid',
+  '_hsenc',
+  '_hsmi',
+  'ref_src',
+  'spm',
+];
+
+// URL canonicalization configuration
+export const urlConfig = {
+  strip_params: process.env.URL_STRIP_PARAMS
+    ? process.env.URL_STRIP_PARAMS.split(',').map((param) => param.trim()).filter(Boolean)
+    : DEFAULT_STRIP_PARAMS,
+};
+
+// Output style configuration
+export const outputConfig = {
+  default_style: process.env.OUTPUT_STYLE || 'detailed',
+  templates_file: process.env.OUTPUT_TEMPLATES_FILE,
+};
+
+// Read "--name value" and "--name=value" flags from the command line (unknown flags are ignored)
+export function parseCliArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const match = /^--([a-z-]+)(?:=(.*))?$/.exec(argv[i]);
+    if (!match) continue;
+
+    if (match[2] !== undefined) {
+      args[match[1]] = match[2];
+    } else if (argv[i + 1] !== undefined && !argv[i + 1].startsWith('--')) {
+      args[match[1]] = argv[++i];
+    }
+  }
+  return args;
+}
+
+const cliArgs = parseCliArgs(process.argv.slice(2));
+
+// Transport configuration (command-line flags override environment variables)
+export const transportConfig = {
+  type: cliArgs.transport || process.env.MCP_TRANSPORT || 'stdio',
+  host: cliArgs.host || process.env.MCP_HTTP_HOST || '127.0.0.1',
+  port: parseInt(cliArgs.port || process.env.MCP_HTTP_PORT || '3000'),
+  path: cliArgs.path || process.env.MCP_HTTP_PATH || '/mcp',
+  auth_token: process.env.MCP_HTTP_TOKEN,
+  cors_origins: (process.env.MCP_HTTP_CORS_ORIGINS || '')
+    .split(',')
+    .map((origin) => origin.trim())
+    .filter(Boolean),
+};
+
 // Logging configuration
 export const logConfig = {
   level: process.env.LOG_LEVEL || 'info',
@@ -72,6 +192,38 @@ export function validateConfig(): void {
     errors.push('Rate limit window must be at least 1000ms');
   }
 
+  if (config.bulk_concurrency < 1) {
+    errors.push('Bulk concurrency must be at least 1');
+  }
+
+  if (config.pagination_page_size < 1 || config.pagination_page_size > 100) {
+    errors.push('Pagination page size must be between 1 and 100');
+  }
+
+  if (config.pagination_max_items < 1) {
+    errors.push('Pagination max items must be at least 1');
+  }
+
+  if (config.resource_poll_interval_ms !== 0 && config.resource_poll_interval_ms < 10000) {
+    errors.push('Resource poll interval must be 0 (disabled) or at least 10000ms');
+  }
+
+  if (config.session_idle_timeout_ms !== 0 && config.session_idle_timeout_ms < 60000) {
+    errors.push('Session idle timeout must be 0 (never) or at least 60000ms');
+  }
+
+  if (transportConfig.type !== 'stdio' && transportConfig.type !== 'http') {
+    errors.push('Transport must be stdio or http');
+  }
+
+  if (!(transportConfig.port >= 1 && transportConfig.port <= 65535)) {
+    errors.push('HTTP port must be between 1 and 65535');
+  }
+
+  if (credentialStoreConfig.passphrase && credentialStoreConfig.key_file) {
+    errors.push('Set only one of LL_CREDENTIAL_STORE_PASSPHRASE and LL_CREDENTIAL_STORE_KEY_FILE');
+  }
+
   if (errors.length > 0) {
     throw new Error(`Configuration validation failed: ${errors.join(', ')}`);
   }
@@ -104,16 +256,68 @@ export function getRateLimitConfig() {
   };
 }
 
+export function getPaginationConfig() {
+  return {
+    pageSize: config.pagination_page_size,
+    maxItems: config.pagination_max_items,
+  };
+}
+
+export function getBulkConcurrency(): number {
+  return config.bulk_concurrency;
+}
+
+export function getResourcePollInterval(): number {
+  return config.resource_poll_interval_ms;
+}
+
+export function getSessionIdleTimeout(): number {
+  return config.session_idle_timeout_ms;
+}
+
+export function getTransportConfig() {
+  return transportConfig;
+}
+
+export function getAccountProfiles(): Record<string, AccountProfile> {
+  return accountConfig.profiles;
+}
+
+// The account tool calls use until switch_account picks another (LL_ACTIVE_ACCOUNT, else
+// "default", else the first named account)
+export function getActiveAccountName(): string {
+  const names = Object.keys(accountConfig.profiles).sort();
+  return accountConfig.active || (accountConfig.profiles[DEFAULT_ACCOUNT] ? DEFAULT_ACCOUNT : names[0]);
+}
+
+export function isCredentialStoreEnabled(): boolean {
+  return !!(credentialStoreConfig.passphrase || credentialStoreConfig.key_file);
+}
+
+function hasPasswordSource(profile: AccountProfile): boolean {
+  return !!(profile.password || profile.password_file || profile.credential_helper);
+}
+
 // Environment validation
 export function validateEnvironment(): void {
   const errors: string[] = [];
 
-  if (!authConfig.username && !authConfig.token) {
+  const profiles = Object.values(accountConfig.profiles);
+
+  // A token saved in the credential store can stand in for both
+  if (!profiles.some((profile) => profile.username || profile.token) && !isCredentialStoreEnabled()) {
     errors.push('Either LL_USERNAME or LL_TOKEN environment variable is required');
   }
 
-  if (authConfig.username && !authConfig.password) {
-    errors.push('LL_PASSWORD is required when using LL_USERNAME');
+  for (const profile of profiles) {
+    const prefix = profile.env_prefix;
+    if (profile.username && !hasPasswordSource(profile)) {
+      errors.push(`${prefix}PASSWORD, ${prefix}PASSWORD_FILE or ${prefix}CREDENTIAL_HELPER is required when using ${prefix}USERNAME`);
+    }
+  }
+
+  if (!accountConfig.profiles[getActiveAccountName()]) {
+    errors.push(`LL_ACTIVE_ACCOUNT must name a configured account (${Object.keys(accountConfig.profiles).join(', ')})`);
   }
 
   if (errors.length > 0) {
@@ -131,8 +335,27 @@ export function getConfigSummary(): Record<string, any> {
     cache_max_size: config.cache_max_size,
     rate_limit_requests: config.rate_limit_requests,
     rate_limit_window_ms: config.rate_limit_window_ms,
+    bulk_concurrency: config.bulk_concurrency,
+    pagination_page_size: config.pagination_page_size,
+    pagination_max_items: config.pagination_max_items,
+    resource_poll_interval_ms: config.resource_poll_interval_ms,
+    session_idle_timeout_ms: config.session_idle_timeout_ms,
+    url_strip_params: urlConfig.strip_params.length,
+    output_style: outputConfig.default_style,
+    has_output_templates: !!outputConfig.templates_file,
+    transport: transportConfig.type,
+    http_host: transportConfig.host,
+    http_port: transportConfig.port,
+    http_path: transportConfig.path,
+    has_http_token: !!transportConfig.auth_token,
+    cors_origins: transportConfig.cors_origins.length,
     has_username: !!authConfig.username,
     has_token: !!authConfig.token,
+    has_password_file: !!authConfig.password_file,
+    has_credential_helper: !!authConfig.credential_helper,
+    credential_store: isCredentialStoreEnabled() ? credentialStoreConfig.dir : null,
+    accounts: Object.keys(accountConfig.profiles),
+    active_account: getActiveAccountName(),
     log_level: logConfig.level,
     metrics_enabled: logConfig.enable_metrics,
   };
@@ -0,0 +1,96 @@
+import Ajv from 'ajv';
+import { ToolSchema } from '@modelcontextprotocol/sdk/types.js';
+import { outputSchemas } from './schemas';
+
+const link = {
+  id: 'link-1',
+  url: 'https://example.com/article',
+  title: 'Example article',
+  summary: null,
+  notes: null,
+  is_favorite: false,
+  collection_id: 3,
+  tag_ids: [1, 2],
+  content_type: null,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+const collection = {
+  id: 3,
+  name: 'Reading',
+  description: null,
+  color: null,
+  icon: null,
+  is_default: false,
+  link_count: 1,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+describe('Tool output schemas', () => {
+  const ajv = new Ajv();
+
+  it('should be valid tool outputSchema declarations', () => {
+    for (const [name, schema] of Object.entries(outputSchemas)) {
+      const result = ToolSchema.safeParse({ name, inputSchema: { type: 'object' }, outputSchema: schema });
+      expect(result.success).toBe(true);
+      expect(() => ajv.compile(schema)).not.toThrow();
+    }
+  });
+
+  it('should accept representative tool results', () => {
+    const samples: Record<string, unknown> = {
+      get_links: {
+        links: [link],
+        pagination: { skip: 0, limit: 50, returned: 1, total: 1, has_more: false, truncated: false },
+      },
+      get_link: { link, collection: { id: 3, name: 'Reading' }, tags: [{ id: 1, name: 'ai' }] },
+      create_link: {
+        status: 'updated',
+        link,
+        changes: [{ field: 'notes', before: null, after: 'Read later' }],
+      },
+      delete_link: {
+        action: 'delete',
+        dry_run: false,
+        matched: [link],
+        succeeded: ['link-1'],
+        failed: [],
+        missing: [{ id: 'link-2', reason: 'not found' }],
+      },
+      get_collections: { collections: [collection], total: 1 },
+      delete_collection: {
+        status: 'needs_confirmation',
+        collection: { id: 3, name: 'Reading' },
+        link_count: 1,
+      },
+      get_user_stats: {
+        period: 'week',
+        source: 'computed',
+        stats: {
+          total_links: 1,
+          total_collections: 1,
+          total_tags: 2,
+          favorite_links: 0,
+          most_used_tags: [{ name: 'ai', link_count: 1 }],
+        },
+      },
+    };
+
+    for (const [name, sample] of Object.entries(samples)) {
+      const validate = ajv.compile(outputSchemas[name]);
+      expect({ name, valid: validate(sample), errors: validate.errors }).toEqual({
+        name,
+        valid: true,
+        errors: null,
+      });
+    }
+  });
+
+  it('should reject results missing required fields', () => {
+    const validate = ajv.compile(outputSchemas.get_links);
+
+    expect(validate({ links: [{ id: 'link-1' }] })).toBe(false);
+  });
+});
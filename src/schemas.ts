@@ -0,0 +1,373 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+
+// JSON Schemas describing the structuredContent each tool returns.
+// Optional API fields are nullable because the LinkLibrary API sends null for unset values.
+
+type OutputSchema = NonNullable<Tool['outputSchema']>;
+type JsonSchema = Record<string, unknown>;
+
+const nullableString = { type: ['string', 'null'] };
+const nullableInteger = { type: ['integer', 'null'] };
+
+export const linkSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    url: { type: 'string' },
+    title: { type: 'string' },
+    summary: nullableString,
+    notes: nullableString,
+    is_favorite: { type: 'boolean' },
+    is_archived: { type: ['boolean', 'null'] },
+    collection_id: nullableInteger,
+    tag_ids: { type: ['array', 'null'], items: { type: 'integer' } },
+    content_type: nullableString,
+    created_at: { type: 'string' },
+    updated_at: { type: 'string' },
+  },
+  required: ['id', 'url', 'title'],
+};
+
+export const collectionSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'integer' },
+    name: { type: 'string' },
+    description: nullableString,
+    color: nullableString,
+    icon: nullableString,
+    is_default: { type: 'boolean' },
+    link_count: { type: 'integer' },
+    created_at: { type: 'string' },
+    updated_at: { type: 'string' },
+  },
+  required: ['id', 'name'],
+};
+
+export const tagSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'integer' },
+    name: { type: 'string' },
+    color: nullableString,
+    link_count: { type: 'integer' },
+    created_at: { type: 'string' },
+    updated_at: { type: 'string' },
+  },
+  required: ['id', 'name'],
+};
+
+const userSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    email: { type: 'string' },
+    full_name: nullableString,
+  },
+  required: ['id', 'email'],
+};
+
+const accountSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    active: { type: 'boolean' },
+    signed_in: { type: 'boolean' },
+    email: nullableString,
+    credentials: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['name', 'active', 'signed_in', 'email', 'credentials'],
+};
+
+const paginationSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    skip: { type: 'integer' },
+    limit: { type: ['integer', 'null'] },
+    returned: { type: 'integer' },
+    total: nullableInteger,
+    has_more: { type: 'boolean' },
+    truncated: { type: 'boolean' },
+  },
+  required: ['returned', 'has_more'],
+};
+
+const changesSchema: JsonSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      field: { type: 'string' },
+      before: {},
+      after: {},
+    },
+    required: ['field'],
+  },
+};
+
+const failureSchema: JsonSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      id: { type: ['string', 'integer'] },
+      reason: { type: 'string' },
+    },
+    required: ['id', 'reason'],
+  },
+};
+
+const namedRefSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'integer' },
+    name: { type: 'string' },
+  },
+  required: ['id', 'name'],
+};
+
+const linkListSchema: JsonSchema = { type: 'array', items: linkSchema };
+
+function objectSchema(properties: Record<string, JsonSchema>, required: string[]): OutputSchema {
+  return { type: 'object', properties, required };
+}
+
+// Output schema for every tool, keyed by tool name
+export const outputSchemas: Record<string, OutputSchema> = {
+  authenticate: objectSchema({ user: userSchema }, ['user']),
+
+  list_accounts: objectSchema(
+    { accounts: { type: 'array', items: accountSchema } },
+    ['accounts'],
+  ),
+
+  switch_account: objectSchema({ account: accountSchema, user: userSchema }, ['account', 'user']),
+
+  whoami: objectSchema(
+    {
+      account: accountSchema,
+      user: { oneOf: [userSchema, { type: 'null' }] },
+      method: { type: ['string', 'null'], enum: ['env_token', 'persisted_token', 'password', null] },
+      token_expires_at: nullableString,
+      refresh_at: nullableString,
+      problem: nullableString,
+    },
+    ['account', 'user', 'method', 'token_expires_at', 'refresh_at', 'problem'],
+  ),
+
+  logout: objectSchema(
+    {
+      account: { type: 'string' },
+      email: nullableString,
+      removed_saved_token: { type: 'boolean' },
+      cleared_cache_entries: { type: 'integer' },
+    },
+    ['account', 'email', 'removed_saved_token', 'cleared_cache_entries'],
+  ),
+
+  get_links: objectSchema(
+    { links: linkListSchema, pagination: paginationSchema },
+    ['links', 'pagination'],
+  ),
+
+  get_link: objectSchema(
+    {
+      link: linkSchema,
+      collection: { oneOf: [namedRefSchema, { type: 'null' }] },
+      tags: { type: 'array', items: namedRefSchema },
+    },
+    ['link', 'tags'],
+  ),
+
+  create_link: objectSchema(
+    {
+      status: { type: 'string', enum: ['created', 'skipped', 'updated'] },
+      link: linkSchema,
+      changes: changesSchema,
+    },
+    ['status', 'link'],
+  ),
+
+  update_link: objectSchema({ link: linkSchema, changes: changesSchema }, ['link', 'changes']),
+
+  delete_link: objectSchema(
+    {
+      action: { type: 'string', enum: ['delete'] },
+      dry_run: { type: 'boolean' },
+      matched: linkListSchema,
+      succeeded: { type: 'array', items: { type: 'string' } },
+      failed: failureSchema,
+      missing: failureSchema,
+    },
+    ['action', 'dry_run', 'matched', 'succeeded', 'failed', 'missing'],
+  ),
+
+  archive_link: objectSchema(
+    {
+      action: { type: 'string', enum: ['archive'] },
+      dry_run: { type: 'boolean' },
+      matched: linkListSchema,
+      succeeded: { type: 'array', items: { type: 'string' } },
+      failed: failureSchema,
+      missing: failureSchema,
+    },
+    ['action', 'dry_run', 'matched', 'succeeded', 'failed', 'missing'],
+  ),
+
+  links_parse: objectSchema(
+    {
+      urls: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            url: { type: 'string' },
+            title: { type: 'string' },
+            status: { type: 'string', enum: ['new', 'existing', 'created', 'failed'] },
+            link_id: { type: 'string' },
+            error: { type: 'string' },
+          },
+          required: ['url', 'status'],
+        },
+      },
+      totals: {
+        type: 'object',
+        properties: {
+          found: { type: 'integer' },
+          new: { type: 'integer' },
+          existing: { type: 'integer' },
+          created: { type: 'integer' },
+          failed: { type: 'integer' },
+        },
+        required: ['found', 'new', 'existing', 'created', 'failed'],
+      },
+    },
+    ['urls', 'totals'],
+  ),
+
+  bulk_update_links: objectSchema(
+    {
+      operation: { type: 'string' },
+      matched: { type: 'integer' },
+      updated: { type: 'integer' },
+      unchanged: { type: 'integer' },
+      failed: { type: 'integer' },
+      results: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            title: { type: 'string' },
+            status: { type: 'string', enum: ['updated', 'unchanged', 'failed'] },
+            error: { type: 'string' },
+          },
+          required: ['id', 'status'],
+        },
+      },
+    },
+    ['operation', 'matched', 'updated', 'unchanged', 'failed', 'results'],
+  ),
+
+  get_collections: objectSchema(
+    {
+      collections: { type: 'array', items: collectionSchema },
+      total: { type: 'integer' },
+      truncated: { type: 'boolean' },
+    },
+    ['collections', 'total'],
+  ),
+
+  create_collection: objectSchema({ collection: collectionSchema }, ['collection']),
+
+  update_collection: objectSchema(
+    { collection: collectionSchema, changes: changesSchema },
+    ['collection', 'changes'],
+  ),
+
+  delete_collection: objectSchema(
+    {
+      status: { type: 'string', enum: ['deleted', 'needs_confirmation', 'aborted'] },
+      collection: namedRefSchema,
+      link_count: { type: 'integer' },
+      moved: { type: 'integer' },
+      move_target: namedRefSchema,
+      failed: failureSchema,
+    },
+    ['status', 'collection'],
+  ),
+
+  get_tags: objectSchema(
+    { tags: { type: 'array', items: tagSchema }, total: { type: 'integer' }, truncated: { type: 'boolean' } },
+    ['tags', 'total'],
+  ),
+
+  create_tag: objectSchema({ tag: tagSchema }, ['tag']),
+
+  update_tag: objectSchema({ tag: tagSchema, changes: changesSchema }, ['tag', 'changes']),
+
+  delete_tag: objectSchema(
+    {
+      status: { type: 'string', enum: ['deleted', 'needs_confirmation'] },
+      tag: namedRefSchema,
+      link_count: { type: 'integer' },
+    },
+    ['status', 'tag', 'link_count'],
+  ),
+
+  merge_tags: objectSchema(
+    {
+      dry_run: { type: 'boolean' },
+      target: namedRefSchema,
+      sources: { type: 'array', items: namedRefSchema },
+      links: linkListSchema,
+      updated: { type: 'integer' },
+      failed: failureSchema,
+      deleted_tags: { type: 'array', items: namedRefSchema },
+      kept_tags: failureSchema,
+    },
+    ['dry_run', 'target', 'sources', 'links', 'updated', 'failed', 'deleted_tags', 'kept_tags'],
+  ),
+
+  search_advanced: objectSchema(
+    { query: { type: 'string' }, links: linkListSchema, pagination: paginationSchema },
+    ['query', 'links', 'pagination'],
+  ),
+
+  get_user_stats: objectSchema(
+    {
+      period: { type: 'string', enum: ['day', 'week', 'month', 'year'] },
+      source: { type: 'string', enum: ['api', 'computed'] },
+      stats: {
+        type: 'object',
+        properties: {
+          total_links: { type: 'integer' },
+          total_collections: { type: 'integer' },
+          total_tags: { type: 'integer' },
+          favorite_links: { type: 'integer' },
+          archived_links: { type: 'integer' },
+          links_added_this_period: { type: 'integer' },
+          most_used_collections: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: { name: { type: 'string' }, link_count: { type: 'integer' } },
+              required: ['name', 'link_count'],
+            },
+          },
+          most_used_tags: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: { name: { type: 'string' }, link_count: { type: 'integer' } },
+              required: ['name', 'link_count'],
+            },
+          },
+        },
+        required: ['total_links', 'total_collections', 'total_tags', 'favorite_links'],
+      },
+      truncated: { type: 'boolean' },
+    },
+    ['period', 'stats'],
+  ),
+};
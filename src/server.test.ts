@@ -1,391 +1,900 @@
-import { Server } from '@modelcontextprotocol/sdk/server/index.js';
-import { authService } from './services/auth-service';
-import { apiClient } from './services/api-client';
-import { globalCache } from './utils/cache';
+import axios, { InternalAxiosRequestConfig } from 'axios';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import * as config from './config';
+import { createServer } from './server';
+import { toolParams } from './tool-params';
+import { ApiClient } from './services/api-client';
+import { AuthService } from './services/auth-service';
+import { SessionContext } from './services/session-context';
+import { ResourceWatcher } from './services/resource-watcher';
+import { CacheNamespace, CacheUtils } from './utils/cache';
+import { toInputSchema } from './utils/params';
 import { globalRateLimiter } from './utils/rate-limiter';
-import { logger } from './utils/logger';
-
-// Mock all external dependencies
-jest.mock('./services/auth-service');
-jest.mock('./services/api-client');
-jest.mock('./utils/cache');
-jest.mock('./utils/rate-limiter');
-jest.mock('./utils/logger');
-
-const mockedAuthService = authService as jest.Mocked<typeof authService>;
-const mockedApiClient = apiClient as jest.Mocked<typeof apiClient>;
-const mockedGlobalCache = globalCache as jest.Mocked<typeof globalCache>;
-const mockedGlobalRateLimiter = globalRateLimiter as jest.Mocked<typeof globalRateLimiter>;
-const mockedLogger = logger as jest.Mocked<typeof logger>;
+import {
+  AuthenticationError,
+  LinkLibraryCollection,
+  LinkLibraryError,
+  LinkLibraryLink,
+  LinkLibraryTag,
+} from './types';
+
+// The tool calls below run through the real server handlers; only the
+// LinkLibrary API and the sign-in behind them are faked
+const fakeApi = () => ({
+  get: jest.fn(),
+  post: jest.fn(),
+  put: jest.fn(),
+  patch: jest.fn(),
+  delete: jest.fn(),
+  onMutation: jest.fn(() => () => undefined),
+});
+
+const fakeAuth = () => ({
+  isAuthenticated: jest.fn(() => true),
+  authenticate: jest.fn(),
+  clearToken: jest.fn(),
+});
+
+const timestamps = { created_at: '2024-01-01T00:00:00Z', updated_at: '2024-01-01T00:00:00Z' };
+
+const link = (id: string, fields: Partial<LinkLibraryLink> = {}): LinkLibraryLink => ({
+  id,
+  url: `https://example.com/${id}`,
+  title: `Link ${id}`,
+  is_favorite: false,
+  ...timestamps,
+  ...fields,
+});
+
+const collection = (id: number, name: string, fields: Partial<LinkLibraryCollection> = {}): LinkLibraryCollection => ({
+  id,
+  name,
+  is_default: false,
+  link_count: 0,
+  ...timestamps,
+  ...fields,
+});
+
+const tag = (id: number, name: string, fields: Partial<LinkLibraryTag> = {}): LinkLibraryTag => ({
+  id,
+  name,
+  link_count: 0,
+  ...timestamps,
+  ...fields,
+});
 
 describe('LinkLibrary MCP Server', () => {
-  let server: Server;
-
-  beforeEach(() => {
-    // Clear all mocks
-    jest.clearAllMocks();
-    
-    // Reset server
-    server = new Server(
-      {
-        name: 'linklibrary-mcp',
-        version: '1.0.0',
-      },
-      {
-        capabilities: {
-          tools: {},
-        },
+  let api: ReturnType<typeof fakeApi>;
+  let auth: ReturnType<typeof fakeAuth>;
+  let cache: CacheNamespace;
+  let context: SessionContext;
+  let client: Client;
+
+  // Answer GET requests from a table of paths (query strings ignored); anything else is a 404
+  const routeGets = (routes: Record<string, unknown>) => {
+    api.get.mockImplementation(async (path: string) => {
+      const route = path.split('?')[0];
+      if (!(route in routes)) {
+        throw new LinkLibraryError(`Not found: ${path}`, 404);
       }
-    );
-
-    // Setup default mock implementations
-    mockedAuthService.isAuthenticated.mockReturnValue(true);
-    mockedAuthService.authenticate.mockResolvedValue({
-      id: 'user-123',
-      email: 'test@example.com',
-      full_name: 'Test User',
-      created_at: '2024-01-01T00:00:00Z',
-      updated_at: '2024-01-01T00:00:00Z',
+      return routes[route];
+    });
+  };
+
+  const callTool = async (name: string, args: Record<string, unknown> = {}) =>
+    (await client.callTool({ name, arguments: args })) as CallToolResult;
+
+  const textOf = (result: CallToolResult) => (result.content[0] as { text: string }).text;
+
+  beforeEach(async () => {
+    api = fakeApi();
+    auth = fakeAuth();
+    cache = new CacheNamespace('test');
+    context = new SessionContext('test', {
+      api: api as unknown as ApiClient,
+      auth: auth as unknown as AuthService,
+      cache,
+      watcher: new ResourceWatcher(),
     });
+
+    const server = createServer(context);
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await context.dispose();
   });
 
   describe('Tool Definitions', () => {
-    it('should list all available tools', async () => {
-      const tools = [
-        'authenticate',
-        'get_links',
-        'create_link',
-        'get_collections',
-        'get_tags',
-        'search_advanced',
-        'get_user_stats',
-      ];
-
-      expect(tools).toHaveLength(7);
-      expect(tools).toContain('authenticate');
-      expect(tools).toContain('get_links');
-      expect(tools).toContain('create_link');
+    it('should list every tool with its parameters and output schema', async () => {
+      const { tools } = await client.listTools();
+
+      expect(tools.map((tool) => tool.name).sort()).toEqual(Object.keys(toolParams).sort());
+      for (const tool of tools) {
+        expect(tool.inputSchema).toEqual(toInputSchema(toolParams[tool.name]));
+        expect(tool.outputSchema).toBeDefined();
+      }
+    });
+
+    it('should reject a call to an unknown tool', async () => {
+      const result = await callTool('no_such_tool');
+
+      expect(result.isError).toBe(true);
+      expect(textOf(result)).toContain('no_such_tool');
     });
   });
 
   describe('Authentication Tool', () => {
-    it('should authenticate successfully with valid credentials', async () => {
-      const mockUser = {
-        id: 'user-123',
-        email: 'test@example.com',
-        full_name: 'Test User',
-        created_at: '2024-01-01T00:00:00Z',
-        updated_at: '2024-01-01T00:00:00Z',
-      };
+    it('should sign in with the given credentials', async () => {
+      auth.authenticate.mockResolvedValue({ id: 'user-123', email: 'test@example.com', full_name: 'Test User' });
 
-      mockedAuthService.authenticate.mockResolvedValue(mockUser);
+      const result = await callTool('authenticate', { username: 'test@example.com', password: 'password' });
 
-      // This would be tested in the actual tool execution
-      const result = await mockedAuthService.authenticate('test@example.com', 'password');
-      
-      expect(result).toEqual(mockUser);
-      expect(mockedAuthService.authenticate).toHaveBeenCalledWith('test@example.com', 'password');
+      expect(auth.authenticate).toHaveBeenCalledWith('test@example.com', 'password');
+      expect(textOf(result)).toContain('Welcome, Test User');
+      expect(result.structuredContent).toEqual({
+        user: { id: 'user-123', email: 'test@example.com', full_name: 'Test User' },
+      });
     });
 
-    it('should handle authentication failure', async () => {
-      const authError = new Error('Invalid credentials');
-      mockedAuthService.authenticate.mockRejectedValue(authError);
+    it('should report a rejected sign-in as an error', async () => {
+      auth.authenticate.mockRejectedValue(new AuthenticationError('Invalid credentials'));
+
+      const result = await callTool('authenticate', { username: 'test@example.com', password: 'wrong' });
 
-      await expect(
-        mockedAuthService.authenticate('test@example.com', 'wrong-password')
-      ).rejects.toThrow('Invalid credentials');
+      expect(result.isError).toBe(true);
+      expect(textOf(result)).toContain('Invalid credentials');
+    });
+  });
+
+  describe('Accounts', () => {
+    // Two accounts with real API clients and sign-in; only the HTTP layer is faked,
+    // answering by the bearer token each request carries
+    const users: Record<string, { id: string; email: string }> = {
+      'tok-personal': { id: 'user-1', email: 'me@example.com' },
+      'tok-work': { id: 'user-2', email: 'me@work.example.com' },
+    };
+    const libraries: Record<string, LinkLibraryLink[]> = {
+      'tok-personal': [link('1', { title: 'Personal link' })],
+      'tok-work': [link('2', { title: 'Work link' })],
+    };
+
+    let session: SessionContext;
+    let accountsClient: Client;
+    let adapter: jest.Mock;
+    const originalAdapter = axios.defaults.adapter;
+
+    const callAs = async (name: string, args: Record<string, unknown> = {}) =>
+      (await accountsClient.callTool({ name, arguments: args })) as CallToolResult;
+
+    beforeEach(async () => {
+      adapter = jest.fn(async (request: InternalAxiosRequestConfig) => {
+        const token = String(request.headers.Authorization).replace('Bearer ', '');
+        const data = request.url === '/auth/me'
+          ? users[token]
+          : { items: libraries[token], total: libraries[token].length };
+        return { data, status: 200, statusText: 'OK', headers: {}, config: request };
+      });
+      axios.defaults.adapter = adapter;
+
+      session = new SessionContext('accounts', { watcher: new ResourceWatcher() }, {
+        default: { name: 'default', env_prefix: 'LL_', token: 'tok-personal' },
+        work: { name: 'work', env_prefix: 'LL_ACCOUNT_WORK_', token: 'tok-work' },
+      });
+      accountsClient = new Client({ name: 'test-client', version: '1.0.0' });
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await Promise.all([accountsClient.connect(clientTransport), createServer(session).connect(serverTransport)]);
+    });
+
+    afterEach(async () => {
+      await accountsClient.close();
+      await session.dispose();
+      axios.defaults.adapter = originalAdapter;
+    });
+
+    const linkRequests = () => adapter.mock.calls.filter(([request]) => request.url.startsWith('/links'));
+
+    it('should list the configured accounts and report who is signed in', async () => {
+      const before = await callAs('list_accounts');
+      const whoami = await callAs('whoami');
+      const after = await callAs('list_accounts');
+
+      expect(before.structuredContent).toMatchObject({
+        accounts: [
+          { name: 'default', active: true, signed_in: false, credentials: ['token'] },
+          { name: 'work', active: false, signed_in: false },
+        ],
+      });
+      expect(whoami.structuredContent).toMatchObject({
+        account: { name: 'default', active: true },
+        user: { id: 'user-1', email: 'me@example.com' },
+        method: 'env_token',
+        problem: null,
+      });
+      expect(after.structuredContent).toMatchObject({
+        accounts: [{ name: 'default', signed_in: true, email: 'me@example.com' }, { name: 'work', signed_in: false }],
+      });
+    });
+
+    it('should switch accounts without serving one account the other\'s cached data', async () => {
+      const personal = await callAs('get_links');
+      const switched = await callAs('switch_account', { account: 'work' });
+      const work = await callAs('get_links');
+      const whoami = await callAs('whoami');
+
+      expect(personal.structuredContent).toMatchObject({ links: [{ id: '1' }] });
+      expect(switched.structuredContent).toMatchObject({
+        account: { name: 'work', active: true },
+        user: { email: 'me@work.example.com' },
+      });
+      expect(work.structuredContent).toMatchObject({ links: [{ id: '2', title: 'Work link' }] });
+      expect(whoami.structuredContent).toMatchObject({ account: { name: 'work' }, user: { id: 'user-2' } });
+      expect(linkRequests().map(([request]) => request.headers.Authorization)).toEqual([
+        'Bearer tok-personal',
+        'Bearer tok-work',
+      ]);
+
+      // Back on the first account its own cached response is served again
+      await callAs('switch_account', { account: 'default' });
+      const again = await callAs('get_links');
+      expect(again.structuredContent).toMatchObject({ links: [{ id: '1' }] });
+      expect(linkRequests()).toHaveLength(2);
+    });
+
+    it('should run a single call against another account without switching', async () => {
+      const result = await callAs('get_links', { account: 'work' });
+      const whoami = await callAs('whoami');
+
+      expect(result.structuredContent).toMatchObject({ links: [{ id: '2' }] });
+      expect(whoami.structuredContent).toMatchObject({ account: { name: 'default', active: true } });
+    });
+
+    it('should count rate limits separately for each account', async () => {
+      const isAllowed = jest.spyOn(globalRateLimiter, 'isAllowed');
+
+      await callAs('get_links');
+      await callAs('get_links', { account: 'work' });
+
+      const keys = isAllowed.mock.calls.map(([key]) => key).filter((key) => key.includes('/links'));
+      expect(keys).toHaveLength(2);
+      expect(keys[0]).toMatch(/^api:default:GET:\/links/);
+      expect(keys[1]).toMatch(/^api:work:GET:\/links/);
+      isAllowed.mockRestore();
+    });
+
+    it('should refuse an account that is not configured', async () => {
+      const result = await callAs('switch_account', { account: 'home' });
+
+      expect(result.isError).toBe(true);
+      expect(textOf(result)).toContain('Configured accounts: default, work');
+      expect(session.getActiveAccountName()).toBe('default');
     });
   });
 
   describe('Get Links Tool', () => {
-    it('should retrieve links successfully', async () => {
-      const mockLinks = [
-        {
-          id: 'link-1',
-          url: 'https://example.com',
-          title: 'Example Link',
-          summary: 'This is an example link',
-          is_favorite: false,
-          created_at: '2024-01-01T00:00:00Z',
-          updated_at: '2024-01-01T00:00:00Z',
-        },
-      ];
-
-      const mockResponse = {
-        items: mockLinks,
-        total: 1,
-        page: 1,
-        limit: 50,
-      };
-
-      mockedApiClient.get.mockResolvedValue(mockResponse);
-
-      const result = await mockedApiClient.get('/links?limit=50');
-      
-      expect(result).toEqual(mockResponse);
-      expect(mockedApiClient.get).toHaveBeenCalledWith('/links?limit=50');
+    it('should pass the filters to the API and describe the page', async () => {
+      routeGets({ '/links': { items: [link('1'), link('2')], total: 5, page: 1, limit: 2 } });
+
+      const result = await callTool('get_links', { collection_id: 3, is_favorite: true, limit: 2 });
+
+      const path = api.get.mock.calls[0][0] as string;
+      const query = new URLSearchParams(path.split('?')[1]);
+      expect(query.get('collection_id')).toBe('3');
+      expect(query.get('is_favorite')).toBe('true');
+      expect(query.get('limit')).toBe('2');
+      expect(result.structuredContent).toMatchObject({
+        links: [{ id: '1' }, { id: '2' }],
+        pagination: { returned: 2, total: 5, has_more: true },
+      });
     });
 
     it('should handle empty results', async () => {
-      const mockResponse = {
-        items: [],
-        total: 0,
-        page: 1,
-        limit: 50,
-      };
+      routeGets({ '/links': { items: [], total: 0, page: 1, limit: 50 } });
 
-      mockedApiClient.get.mockResolvedValue(mockResponse);
+      const result = await callTool('get_links');
 
-      const result = await mockedApiClient.get('/links');
-      
-      expect(result.items).toHaveLength(0);
-      expect(result.total).toBe(0);
+      expect(result.isError).toBeFalsy();
+      expect(result.structuredContent).toMatchObject({ links: [], pagination: { total: 0, has_more: false } });
     });
   });
 
-  describe('Create Link Tool', () => {
-    it('should create a link successfully', async () => {
-      const mockLink = {
-        id: 'link-1',
-        url: 'https://example.com',
-        title: 'Example Link',
-        summary: 'This is an example link',
-        is_favorite: false,
-        created_at: '2024-01-01T00:00:00Z',
-        updated_at: '2024-01-01T00:00:00Z',
-      };
-
-      const createParams = {
-        url: 'https://example.com',
-        title: 'Example Link',
-        summary: 'This is an example link',
-      };
-
-      mockedApiClient.post.mockResolvedValue(mockLink);
-
-      const result = await mockedApiClient.post('/links', createParams);
-      
-      expect(result).toEqual(mockLink);
-      expect(mockedApiClient.post).toHaveBeenCalledWith('/links', createParams);
+  describe('Get Link Tool', () => {
+    it('should return the link with its collection and tag names', async () => {
+      routeGets({
+        '/links/1': link('1', { collection_id: 3, tag_ids: [7] }),
+        '/collections': { items: [collection(3, 'Reading')], total: 1 },
+        '/tags': { items: [tag(7, 'typescript'), tag(8, 'rust')], total: 2 },
+      });
+
+      const result = await callTool('get_link', { link_id: '1' });
+
+      expect(result.structuredContent).toMatchObject({
+        link: { id: '1' },
+        collection: { id: 3, name: 'Reading' },
+        tags: [{ id: 7, name: 'typescript' }],
+      });
     });
   });
 
-  describe('Get Collections Tool', () => {
-    it('should retrieve collections successfully', async () => {
-      const mockCollections = [
-        {
-          id: 1,
-          name: 'Default Collection',
-          description: 'Default collection for bookmarks',
-          color: 'blue',
-          is_default: true,
-          link_count: 5,
-          created_at: '2024-01-01T00:00:00Z',
-          updated_at: '2024-01-01T00:00:00Z',
-        },
-      ];
-
-      mockedApiClient.get.mockResolvedValue(mockCollections);
-
-      const result = await mockedApiClient.get('/collections');
-      
-      expect(result).toEqual(mockCollections);
-      expect(mockedApiClient.get).toHaveBeenCalledWith('/collections');
+  describe('Create Link Tool', () => {
+    const existing = link('9', { url: 'https://www.example.com/article', title: 'Old title' });
+
+    it('should create a link without tracking parameters', async () => {
+      routeGets({ '/links': { items: [], total: 0, page: 1, limit: 50 } });
+      api.post.mockResolvedValue(link('10', { url: 'https://example.com/new' }));
+
+      const result = await callTool('create_link', {
+        url: 'https://example.com/new?utm_source=feed',
+        title: 'New',
+      });
+
+      expect(api.post).toHaveBeenCalledWith('/links', { url: 'https://example.com/new', title: 'New' });
+      expect(result.structuredContent).toMatchObject({ status: 'created', link: { id: '10' } });
     });
-  });
 
-  describe('Get Tags Tool', () => {
-    it('should retrieve tags successfully', async () => {
-      const mockTags = [
-        {
-          id: 1,
-          name: 'important',
-          color: 'red',
-          link_count: 3,
-          created_at: '2024-01-01T00:00:00Z',
-          updated_at: '2024-01-01T00:00:00Z',
-        },
-      ];
-
-      mockedApiClient.get.mockResolvedValue(mockTags);
-
-      const result = await mockedApiClient.get('/tags');
-      
-      expect(result).toEqual(mockTags);
-      expect(mockedApiClient.get).toHaveBeenCalledWith('/tags');
+    it('should skip a page that is already saved under another URL form', async () => {
+      routeGets({ '/links': { items: [existing], total: 1, page: 1, limit: 50 } });
+
+      const result = await callTool('create_link', { url: 'http://example.com/article/', title: 'Article' });
+
+      expect(api.post).not.toHaveBeenCalled();
+      expect(api.patch).not.toHaveBeenCalled();
+      expect(result.structuredContent).toMatchObject({ status: 'skipped', link: { id: '9' } });
+    });
+
+    it('should update the saved link instead when asked, keeping its URL', async () => {
+      routeGets({ '/links': { items: [existing], total: 1, page: 1, limit: 50 } });
+      api.patch.mockResolvedValue({ ...existing, title: 'Article' });
+
+      const result = await callTool('create_link', {
+        url: 'https://example.com/article',
+        title: 'Article',
+        on_duplicate: 'update',
+      });
+
+      expect(api.patch).toHaveBeenCalledWith('/links/9', { title: 'Article' });
+      expect(api.post).not.toHaveBeenCalled();
+      expect(result.structuredContent).toMatchObject({
+        status: 'updated',
+        changes: [{ field: 'title', before: 'Old title', after: 'Article' }],
+      });
+    });
+
+    it('should compare against every saved link, not only search matches', async () => {
+      jest.spyOn(config, 'getPaginationConfig').mockReturnValue({ pageSize: 1, maxItems: 10 });
+      const pages = [link('1'), link('2', { url: 'https://example.com/article', title: 'Reading list' })];
+      api.get.mockImplementation(async (path: string) => {
+        const skip = Number(new URLSearchParams(path.split('?')[1]).get('skip'));
+        return { items: pages.slice(skip, skip + 1), total: pages.length };
+      });
+
+      const result = await callTool('create_link', { url: 'https://www.example.com/article', title: 'Article' });
+
+      expect(api.get).toHaveBeenCalledTimes(2);
+      expect(api.get.mock.calls.every(([path]) => !path.includes('search='))).toBe(true);
+      expect(api.post).not.toHaveBeenCalled();
+      expect(result.structuredContent).toMatchObject({ status: 'skipped', link: { id: '2' } });
+      jest.restoreAllMocks();
     });
   });
 
-  describe('Search Advanced Tool', () => {
-    it('should perform advanced search successfully', async () => {
-      const mockSearchResults = {
-        items: [
-          {
-            id: 'link-1',
-            url: 'https://example.com',
-            title: 'Example Link',
-            summary: 'This is an example link',
-            is_favorite: false,
-            created_at: '2024-01-01T00:00:00Z',
-            updated_at: '2024-01-01T00:00:00Z',
-          },
+  describe('Parse Links Tool', () => {
+    const text = [
+      'Reading: [Saved article](https://www.example.com/article?utm_source=mail)',
+      'also https://example.com/new-one and <https://example.org/other>.',
+    ].join('\n');
+
+    beforeEach(() => {
+      routeGets({
+        '/links': { items: [link('9', { url: 'https://example.com/article', title: 'Reading list' })], total: 1 },
+      });
+    });
+
+    it('should load the saved links once and mark the pages already saved', async () => {
+      const result = await callTool('links_parse', { text });
+
+      expect(api.get).toHaveBeenCalledTimes(1);
+      expect(api.post).not.toHaveBeenCalled();
+      expect(result.structuredContent).toMatchObject({
+        urls: [
+          { url: 'https://www.example.com/article', status: 'existing', link_id: '9' },
+          { url: 'https://example.org/other', status: 'new' },
+          { url: 'https://example.com/new-one', status: 'new' },
+        ],
+        totals: { found: 3, new: 2, existing: 1, created: 0, failed: 0 },
+      });
+    });
+
+    it('should create the new pages and report the ones that fail', async () => {
+      api.post
+        .mockResolvedValueOnce(link('10', { url: 'https://example.org/other' }))
+        .mockRejectedValueOnce(new LinkLibraryError('Internal server error', 500));
+
+      const result = await callTool('links_parse', { text, create: true, collection_id: 3 });
+
+      expect(api.get).toHaveBeenCalledTimes(1);
+      expect(api.post).toHaveBeenCalledWith(
+        '/links',
+        expect.objectContaining({ url: 'https://example.org/other', collection_id: 3 }),
+      );
+      expect(result.structuredContent).toMatchObject({
+        urls: [
+          { status: 'existing' },
+          { status: 'created', link_id: '10' },
+          { url: 'https://example.com/new-one', status: 'failed', error: 'Internal server error' },
         ],
-        total: 1,
-        page: 1,
-        limit: 50,
-      };
-
-      const searchParams = {
-        query: 'example',
-        operator: 'OR' as const,
-        limit: 50,
-      };
-
-      mockedApiClient.post.mockResolvedValue(mockSearchResults);
-
-      const result = await mockedApiClient.post('/search/advanced', searchParams);
-      
-      expect(result).toEqual(mockSearchResults);
-      expect(mockedApiClient.post).toHaveBeenCalledWith('/search/advanced', searchParams);
-    });
-
-    it('should handle empty search results', async () => {
-      const mockSearchResults = {
-        items: [],
-        total: 0,
-        page: 1,
-        limit: 50,
-      };
-
-      const searchParams = {
-        query: 'nonexistent',
-        operator: 'OR' as const,
-        limit: 50,
-      };
-
-      mockedApiClient.post.mockResolvedValue(mockSearchResults);
-
-      const result = await mockedApiClient.post('/search/advanced', searchParams);
-      
-      expect(result.items).toHaveLength(0);
-      expect(result.total).toBe(0);
+        totals: { found: 3, new: 0, existing: 1, created: 1, failed: 1 },
+      });
     });
   });
 
-  describe('Get User Stats Tool', () => {
-    it('should retrieve user statistics successfully', async () => {
-      const mockStats = {
-        total_links: 100,
-        total_collections: 5,
-        total_tags: 10,
-        favorite_links: 20,
-        archived_links: 5,
-        links_added_this_period: 15,
-        most_used_collections: [
-          { name: 'Work', link_count: 30 },
-          { name: 'Personal', link_count: 25 },
+  describe('Update Link Tool', () => {
+    it('should send only the given fields and report what changed', async () => {
+      const before = link('1', { title: 'Before', tag_ids: [1, 2] });
+      routeGets({ '/links/1': before });
+      api.patch.mockResolvedValue({ ...before, title: 'After', is_favorite: true });
+
+      const result = await callTool('update_link', { link_id: '1', title: 'After', is_favorite: true });
+
+      expect(api.patch).toHaveBeenCalledWith('/links/1', { title: 'After', is_favorite: true });
+      expect(result.structuredContent).toMatchObject({
+        changes: [
+          { field: 'title', before: 'Before', after: 'After' },
+          { field: 'is_favorite', before: false, after: true },
         ],
-        most_used_tags: [
-          { name: 'important', link_count: 15 },
-          { name: 'work', link_count: 12 },
+      });
+    });
+  });
+
+  describe('Delete and Archive Link Tools', () => {
+    it('should delete the links it finds and report the missing ones', async () => {
+      routeGets({ '/links/1': link('1'), '/links/2': link('2') });
+      api.delete.mockResolvedValue(undefined);
+
+      const result = await callTool('delete_link', { link_ids: ['1', '2', '3'] });
+
+      expect(api.delete.mock.calls).toEqual([['/links/1'], ['/links/2']]);
+      expect(result.structuredContent).toMatchObject({
+        action: 'delete',
+        succeeded: ['1', '2'],
+        failed: [],
+        missing: [{ id: '3', reason: 'not found' }],
+      });
+    });
+
+    it('should change nothing on a dry run', async () => {
+      routeGets({ '/links/1': link('1') });
+
+      const result = await callTool('delete_link', { link_id: '1', dry_run: true });
+
+      expect(api.delete).not.toHaveBeenCalled();
+      expect(result.structuredContent).toMatchObject({ dry_run: true, matched: [{ id: '1' }], succeeded: [] });
+    });
+
+    it('should archive a link by flagging it archived', async () => {
+      routeGets({ '/links/1': link('1') });
+      api.patch.mockResolvedValue(link('1', { is_archived: true }));
+
+      const result = await callTool('archive_link', { link_id: '1' });
+
+      expect(api.patch).toHaveBeenCalledWith('/links/1', { is_archived: true });
+      expect(api.delete).not.toHaveBeenCalled();
+      expect(result.structuredContent).toMatchObject({ action: 'archive', succeeded: ['1'] });
+    });
+  });
+
+  describe('Bulk Update Links Tool', () => {
+    it('should move links by ID, reading each one fresh and skipping those already there', async () => {
+      routeGets({ '/links/1': link('1', { collection_id: 2 }), '/links/2': link('2', { collection_id: 3 }) });
+      api.patch.mockResolvedValue({});
+
+      const result = await callTool('bulk_update_links', { link_ids: ['1', '2'], operation: 'move', collection_id: 3 });
+
+      expect(api.get).toHaveBeenCalledWith('/links/1', { fresh: true });
+      expect(api.get).toHaveBeenCalledWith('/links/2', { fresh: true });
+      expect(api.patch.mock.calls).toEqual([['/links/1', { collection_id: 3 }]]);
+      expect(result.structuredContent).toMatchObject({ matched: 2, updated: 1, unchanged: 1, failed: 0 });
+    });
+
+    it('should keep tags that are already on a link when adding tags', async () => {
+      routeGets({ '/links/1': link('1', { tag_ids: [1, 5] }) });
+      api.patch.mockResolvedValue({});
+
+      await callTool('bulk_update_links', { link_ids: ['1'], operation: 'add_tags', tag_ids: [2, 5] });
+
+      expect(api.patch).toHaveBeenCalledWith('/links/1', { tag_ids: [1, 5, 2] });
+    });
+
+    it('should remove only the given tags', async () => {
+      routeGets({ '/links/1': link('1', { tag_ids: [1, 2, 3] }) });
+      api.patch.mockResolvedValue({});
+
+      await callTool('bulk_update_links', { link_ids: ['1'], operation: 'remove_tags', tag_ids: [2] });
+
+      expect(api.patch).toHaveBeenCalledWith('/links/1', { tag_ids: [1, 3] });
+    });
+
+    it('should resolve a filter from a fresh listing of every match', async () => {
+      routeGets({ '/links': { items: [link('1'), link('2', { is_favorite: true })], total: 2 } });
+      api.patch.mockResolvedValue({});
+
+      const result = await callTool('bulk_update_links', {
+        filter: { collection_id: 4, search: 'docs' },
+        operation: 'set_favorite',
+      });
+
+      expect(api.get).toHaveBeenCalledWith(expect.stringMatching(/collection_id=4.*search=docs/), { fresh: true });
+      expect(api.patch.mock.calls).toEqual([['/links/1', { is_favorite: true }]]);
+      expect(result.structuredContent).toMatchObject({ matched: 2, updated: 1, unchanged: 1 });
+    });
+
+    it('should report each link that fails without stopping the others', async () => {
+      routeGets({ '/links/1': link('1'), '/links/3': link('3') });
+      api.patch.mockImplementation(async (path: string) => {
+        if (path === '/links/3') {
+          throw new LinkLibraryError('Internal server error', 500);
+        }
+        return {};
+      });
+
+      const result = await callTool('bulk_update_links', { link_ids: ['1', '2', '3'], operation: 'set_favorite' });
+
+      expect(result.isError).toBeFalsy();
+      expect(result.structuredContent).toMatchObject({
+        matched: 3,
+        updated: 1,
+        failed: 2,
+        results: [
+          { id: '1', status: 'updated' },
+          { id: '2', status: 'failed', error: 'Not found: /links/2' },
+          { id: '3', status: 'failed', error: 'Internal server error' },
         ],
-      };
+      });
+    });
+  });
+
+  describe('Get Collections Tool', () => {
+    it('should leave out default collections when asked', async () => {
+      routeGets({
+        '/collections': { items: [collection(1, 'Inbox', { is_default: true }), collection(2, 'Reading')], total: 2 },
+      });
 
-      mockedApiClient.get.mockResolvedValue(mockStats);
+      const result = await callTool('get_collections', { include_default: false });
 
-      const result = await mockedApiClient.get('/analytics/user-stats?period=month');
-      
-      expect(result).toEqual(mockStats);
-      expect(mockedApiClient.get).toHaveBeenCalledWith('/analytics/user-stats?period=month');
+      expect(result.structuredContent).toMatchObject({ collections: [{ id: 2, name: 'Reading' }], total: 1 });
     });
   });
 
-  describe('Error Handling', () => {
-    it('should handle API errors gracefully', async () => {
-      const apiError = new Error('API Error');
-      mockedApiClient.get.mockRejectedValue(apiError);
+  describe('Delete Collection Tool', () => {
+    it('should ask for confirmation while the collection still has links', async () => {
+      routeGets({ '/collections/2': collection(2, 'Reading', { link_count: 3 }) });
+
+      const result = await callTool('delete_collection', { collection_id: 2 });
 
-      await expect(
-        mockedApiClient.get('/links')
-      ).rejects.toThrow('API Error');
+      expect(api.delete).not.toHaveBeenCalled();
+      expect(result.structuredContent).toMatchObject({ status: 'needs_confirmation', link_count: 3 });
     });
 
-    it('should handle authentication errors', async () => {
-      mockedAuthService.isAuthenticated.mockReturnValue(false);
+    it('should refuse to delete a default collection', async () => {
+      routeGets({ '/collections/1': collection(1, 'Inbox', { is_default: true }) });
+
+      const result = await callTool('delete_collection', { collection_id: 1, confirm: true });
 
-      expect(mockedAuthService.isAuthenticated()).toBe(false);
+      expect(result.isError).toBe(true);
+      expect(api.delete).not.toHaveBeenCalled();
+    });
+
+    it('should move the links before deleting', async () => {
+      routeGets({
+        '/collections/2': collection(2, 'Reading', { link_count: 2 }),
+        '/collections/3': collection(3, 'Archive'),
+        '/links': { items: [link('1'), link('2')], total: 2 },
+      });
+      api.patch.mockResolvedValue({});
+
+      const result = await callTool('delete_collection', { collection_id: 2, move_links_to: 3 });
+
+      expect(api.patch.mock.calls).toEqual([
+        ['/links/1', { collection_id: 3 }],
+        ['/links/2', { collection_id: 3 }],
+      ]);
+      expect(api.delete).toHaveBeenCalledWith('/collections/2');
+      expect(result.structuredContent).toMatchObject({ status: 'deleted', moved: 2, move_target: { id: 3 } });
+    });
+
+    it('should keep the collection when a link could not be moved', async () => {
+      routeGets({
+        '/collections/2': collection(2, 'Reading', { link_count: 2 }),
+        '/collections/3': collection(3, 'Archive'),
+        '/links': { items: [link('1'), link('2')], total: 2 },
+      });
+      api.patch.mockResolvedValueOnce({}).mockRejectedValueOnce(new Error('Server error'));
+
+      const result = await callTool('delete_collection', { collection_id: 2, move_links_to: 3 });
+
+      expect(api.delete).not.toHaveBeenCalled();
+      expect(result.structuredContent).toMatchObject({
+        status: 'aborted',
+        moved: 1,
+        failed: [{ id: '2', reason: 'Server error' }],
+      });
     });
   });
 
-  describe('Cache Integration', () => {
-    it('should use cache for GET requests', async () => {
-      const mockData = { items: [], total: 0 };
-      mockedGlobalCache.get.mockReturnValue(mockData);
+  describe('Tag Management Tools', () => {
+    it('should ask for confirmation before deleting a tag in use', async () => {
+      routeGets({ '/tags/7': tag(7, 'typescript', { link_count: 4 }) });
+
+      const result = await callTool('delete_tag', { tag_id: 7 });
+
+      expect(api.delete).not.toHaveBeenCalled();
+      expect(result.structuredContent).toMatchObject({ status: 'needs_confirmation', link_count: 4 });
+    });
 
-      const result = mockedGlobalCache.get('test-key');
-      
-      expect(result).toEqual(mockData);
-      expect(mockedGlobalCache.get).toHaveBeenCalledWith('test-key');
+    it('should retag the links and delete the source tags when merging', async () => {
+      routeGets({
+        '/tags': { items: [tag(1, 'js'), tag(2, 'javascript'), tag(3, 'web')], total: 3 },
+        '/links': { items: [link('10', { tag_ids: [1, 3] }), link('11', { tag_ids: [1, 2] })], total: 2 },
+      });
+      api.patch.mockResolvedValue({});
+      api.delete.mockResolvedValue(undefined);
+
+      const result = await callTool('merge_tags', { source_tags: [1], target_tag: 2 });
+
+      expect(api.patch.mock.calls).toEqual([
+        ['/links/10', { tag_ids: [2, 3] }],
+        ['/links/11', { tag_ids: [2] }],
+      ]);
+      expect(api.delete.mock.calls).toEqual([['/tags/1']]);
+      expect(result.structuredContent).toMatchObject({
+        target: { id: 2, name: 'javascript' },
+        sources: [{ id: 1, name: 'js' }],
+        updated: 2,
+        deleted_tags: [{ id: 1, name: 'js' }],
+      });
     });
 
-    it('should invalidate cache on POST requests', async () => {
-      mockedGlobalCache.delete.mockReturnValue(true);
+    it('should only preview a merge on a dry run', async () => {
+      routeGets({
+        '/tags': { items: [tag(1, 'js'), tag(2, 'javascript')], total: 2 },
+        '/links': { items: [link('10', { tag_ids: [1] })], total: 1 },
+      });
+
+      const result = await callTool('merge_tags', { source_tags: [1], target_tag: 2, dry_run: true });
 
-      const result = mockedGlobalCache.delete('test-key');
-      
-      expect(result).toBe(true);
-      expect(mockedGlobalCache.delete).toHaveBeenCalledWith('test-key');
+      expect(api.patch).not.toHaveBeenCalled();
+      expect(api.delete).not.toHaveBeenCalled();
+      expect(result.structuredContent).toMatchObject({ dry_run: true, links: [{ id: '10' }], updated: 0 });
     });
   });
 
-  describe('Rate Limiting', () => {
-    it('should check rate limits', async () => {
-      mockedGlobalRateLimiter.isAllowed.mockReturnValue(true);
+  describe('Names in calls that change records', () => {
+    beforeEach(() => {
+      routeGets({
+        '/tags': { items: [tag(1, 'typescript'), tag(2, 'machine-learning'), tag(7, '2024')], total: 3 },
+        '/tags/2': tag(2, 'machine-learning'),
+        '/collections': { items: [collection(3, 'Reading List'), collection(4, 'Archive')], total: 2 },
+        '/links': { items: [], total: 0 },
+      });
+      api.delete.mockResolvedValue(undefined);
+    });
 
-      const result = mockedGlobalRateLimiter.isAllowed('test-key');
-      
-      expect(result).toBe(true);
-      expect(mockedGlobalRateLimiter.isAllowed).toHaveBeenCalledWith('test-key');
+    it('should return the candidates instead of deleting a near match', async () => {
+      const result = await callTool('delete_tag', { tag: 'typscript', confirm: true });
+
+      expect(result.isError).toBe(true);
+      expect(textOf(result)).toContain('"typescript" (#1)');
+      expect(api.delete).not.toHaveBeenCalled();
     });
 
-    it('should handle rate limit exceeded', async () => {
-      mockedGlobalRateLimiter.isAllowed.mockReturnValue(false);
-      mockedGlobalRateLimiter.getInfo.mockReturnValue({
-        remaining: 0,
-        resetTime: Date.now() + 60000,
-        limit: 100,
-        windowMs: 60000,
+    it('should accept a name that only differs in case and separators', async () => {
+      const result = await callTool('delete_tag', { tag: 'Machine Learning', confirm: true });
+
+      expect(api.delete).toHaveBeenCalledWith('/tags/2');
+      expect(result.structuredContent).toMatchObject({ status: 'deleted', tag: { id: 2 } });
+    });
+
+    it('should not guess the collection that receives the links of a deleted one', async () => {
+      const result = await callTool('delete_collection', { collection: 'Reading List', move_links_to_collection: 'Archve' });
+
+      expect(result.isError).toBe(true);
+      expect(textOf(result)).toContain('"Archive" (#4)');
+      expect(api.patch).not.toHaveBeenCalled();
+      expect(api.delete).not.toHaveBeenCalled();
+    });
+
+    it('should not guess the source tags of a merge', async () => {
+      const result = await callTool('merge_tags', { source_tags: ['typscript'], target_tag: 'machine-learning' });
+
+      expect(result.isError).toBe(true);
+      expect(textOf(result)).toContain('"typescript" (#1)');
+      expect(api.delete).not.toHaveBeenCalled();
+    });
+
+    it('should not guess the collection or tags of a bulk update', async () => {
+      for (const args of [
+        { link_ids: ['1'], operation: 'move', collection: 'Archve' },
+        { link_ids: ['1'], operation: 'add_tags', tags: ['typscript'] },
+        { filter: { collection: 'Reading Lst' }, operation: 'set_favorite' },
+      ]) {
+        const result = await callTool('bulk_update_links', args);
+
+        expect(result.isError).toBe(true);
+        expect(textOf(result)).toContain('near matches are not used');
+      }
+      expect(api.patch).not.toHaveBeenCalled();
+    });
+
+    it('should not guess the tag or collection being updated', async () => {
+      const tagResult = await callTool('update_tag', { tag: 'typscript', name: 'ts' });
+      const collectionResult = await callTool('update_collection', { collection: 'Archve', name: 'Old' });
+
+      expect(textOf(tagResult)).toContain('"typescript" (#1)');
+      expect(textOf(collectionResult)).toContain('"Archive" (#4)');
+      expect(api.put).not.toHaveBeenCalled();
+      expect(api.patch).not.toHaveBeenCalled();
+    });
+
+    it('should still match names loosely when only reading', async () => {
+      const result = await callTool('get_links', { tags: ['typscript'] });
+
+      expect(result.isError).toBeFalsy();
+      expect(api.get).toHaveBeenCalledWith('/links?tag_ids=1');
+    });
+
+    it('should find a tag whose name is made of digits by name, and take a number as an ID', async () => {
+      const result = await callTool('merge_tags', { source_tags: ['2024'], target_tag: 1, dry_run: true });
+
+      expect(result.structuredContent).toMatchObject({
+        target: { id: 1, name: 'typescript' },
+        sources: [{ id: 7, name: '2024' }],
+      });
+    });
+  });
+
+  describe('Resources', () => {
+    it('should read the links of a collection resource', async () => {
+      routeGets({
+        '/collections/3': collection(3, 'Reading'),
+        '/links': { items: [link('1', { title: 'First' })], total: 1 },
+      });
+
+      const { contents } = await client.readResource({ uri: 'linklibrary://collections/3' });
+
+      expect(api.get).toHaveBeenCalledWith(expect.stringContaining('collection_id=3'), { fresh: false });
+      expect((contents[0] as { text: string }).text).toContain('First');
+    });
+
+    it('should only poll for changes while something is subscribed', async () => {
+      routeGets({
+        '/links': { items: [link('1', { collection_id: 3 })], total: 1 },
+        '/collections': { items: [collection(3, 'Reading')], total: 1 },
+        '/tags': { items: [], total: 0 },
+      });
+      expect(context.watcher.isPolling()).toBe(false);
+
+      await client.subscribeResource({ uri: 'linklibrary://collections/3' });
+      expect(context.watcher.isPolling()).toBe(true);
+
+      await client.unsubscribeResource({ uri: 'linklibrary://collections/3' });
+      expect(context.watcher.isPolling()).toBe(false);
+    });
+
+    it('should read the library fresh and drop only the cached responses that changed', async () => {
+      const reading = collection(3, 'Reading');
+      const library = (first: LinkLibraryLink) => ({
+        '/links': { items: [first, link('2')], total: 2 },
+        '/collections': { items: [reading], total: 1 },
+        '/tags': { items: [tag(7, 'js')], total: 1 },
       });
+      // The key the API client caches a GET response under
+      const responseKey = (path: string) => CacheUtils.generateKey('api', 'GET', path, undefined);
+      routeGets(library(link('1')));
+      await client.subscribeResource({ uri: 'linklibrary://links/1' });
+      expect(api.get).toHaveBeenCalledWith(expect.stringMatching(/^\/links\?/), { fresh: true });
+
+      cache.set(responseKey('/links/1'), link('1'));
+      cache.set(responseKey('/links/2'), link('2'));
+      cache.set(responseKey('/links?limit=50'), {});
+      cache.set(responseKey('/collections/3'), reading);
+      cache.set(responseKey('/tags?skip=0&limit=100'), {});
+
+      routeGets(library(link('1', { title: 'Edited', updated_at: '2024-02-01T00:00:00Z' })));
+      await context.watcher.poll();
+
+      expect(cache.get(responseKey('/links/1'))).toBeNull();
+      expect(cache.get(responseKey('/links?limit=50'))).toBeNull();
+      expect(cache.get(responseKey('/links/2'))).not.toBeNull();
+      expect(cache.get(responseKey('/collections/3'))).not.toBeNull();
+      expect(cache.get(responseKey('/tags?skip=0&limit=100'))).not.toBeNull();
+    });
+  });
 
-      const result = mockedGlobalRateLimiter.isAllowed('test-key');
-      
-      expect(result).toBe(false);
+  describe('Get User Stats Tool', () => {
+    it('should compute the statistics locally when the API has no stats endpoint', async () => {
+      routeGets({
+        '/links': { items: [link('1', { is_favorite: true }), link('2')], total: 2 },
+        '/collections': { items: [collection(1, 'Reading')], total: 1 },
+        '/tags': { items: [tag(1, 'js')], total: 1 },
+      });
+
+      const result = await callTool('get_user_stats', { period: 'week' });
+
+      expect(result.structuredContent).toMatchObject({
+        period: 'week',
+        source: 'computed',
+        stats: { total_links: 2, total_collections: 1, total_tags: 1, favorite_links: 1 },
+      });
     });
   });
 
-  describe('Logging', () => {
-    it('should log operations correctly', async () => {
-      mockedLogger.info.mockImplementation(() => {});
-      mockedLogger.error.mockImplementation(() => {});
-      mockedLogger.debug.mockImplementation(() => {});
+  describe('Listings cut short by PAGINATION_MAX_ITEMS', () => {
+    beforeEach(() => {
+      jest.spyOn(config, 'getPaginationConfig').mockReturnValue({ pageSize: 100, maxItems: 2 });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should say so when listing tags', async () => {
+      routeGets({ '/tags': { items: [tag(1, 'js'), tag(2, 'web')], total: 5 } });
+
+      const result = await callTool('get_tags');
+
+      expect(textOf(result)).toContain('Stopped at 2 of 5 tags');
+      expect(result.structuredContent).toMatchObject({ total: 2, truncated: true });
+    });
+
+    it('should not move or delete anything when the links to move do not all load', async () => {
+      routeGets({
+        '/collections/2': collection(2, 'Reading', { link_count: 5 }),
+        '/collections/3': collection(3, 'Archive'),
+        '/links': { items: [link('1'), link('2')], total: 5 },
+      });
 
-      mockedLogger.info('Test message', { operation: 'test' });
-      mockedLogger.error('Test error', { operation: 'test' }, new Error('Test error'));
-      mockedLogger.debug('Test debug', { operation: 'test' });
+      const result = await callTool('delete_collection', { collection_id: 2, move_links_to: 3 });
 
-      expect(mockedLogger.info).toHaveBeenCalledWith('Test message', { operation: 'test' });
-      expect(mockedLogger.error).toHaveBeenCalledWith('Test error', { operation: 'test' }, expect.any(Error));
-      expect(mockedLogger.debug).toHaveBeenCalledWith('Test debug', { operation: 'test' });
+      expect(result.isError).toBe(true);
+      expect(textOf(result)).toContain('Only 2 of 5 links to move');
+      expect(api.patch).not.toHaveBeenCalled();
+      expect(api.delete).not.toHaveBeenCalled();
+    });
+
+    it('should not merge tags when the tagged links do not all load', async () => {
+      routeGets({
+        '/tags': { items: [tag(1, 'js'), tag(2, 'javascript')], total: 2 },
+        '/links': { items: [link('10', { tag_ids: [1] }), link('11', { tag_ids: [1] })], total: 3 },
+      });
+
+      const result = await callTool('merge_tags', { source_tags: [1], target_tag: 2 });
+
+      expect(result.isError).toBe(true);
+      expect(api.patch).not.toHaveBeenCalled();
+      expect(api.delete).not.toHaveBeenCalled();
     });
   });
 
-  describe('Performance Monitoring', () => {
-    it('should track performance metrics', async () => {
-      const startTime = Date.now();
-      await new Promise(resolve => setTimeout(resolve, 10)); // Simulate work
-      const duration = Date.now() - startTime;
+  describe('Error Handling', () => {
+    it('should report API errors as tool errors', async () => {
+      api.get.mockRejectedValue(new LinkLibraryError('Service unavailable', 503));
+
+      const result = await callTool('get_link', { link_id: '1' });
+
+      expect(result.isError).toBe(true);
+      expect(textOf(result)).toContain('Service unavailable');
+    });
+
+    it('should reject invalid arguments before calling the API', async () => {
+      const result = await callTool('get_links', { limit: 'many' });
 
-      expect(duration).toBeGreaterThan(0);
+      expect(result.isError).toBe(true);
+      expect(api.get).not.toHaveBeenCalled();
     });
   });
-}); 
\ No newline at end of file
+});
@@ -5,6 +5,25 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  ReadResourceResult,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  GetPromptResult,
+  CallToolRequest,
+  ListResourcesRequest,
+  ReadResourceRequest,
+  SubscribeRequest,
+  UnsubscribeRequest,
+  GetPromptRequest,
+  Resource,
+  ResourceTemplate,
+  McpError,
+  ErrorCode,
   Tool,
 } from '@modelcontextprotocol/sdk/types.js';
 
@@ -12,21 +31,65 @@ import {
 import { 
   validateConfig, 
   validateEnvironment, 
-  getConfigSummary 
+  getConfigSummary,
+  getBulkConcurrency,
+  getPaginationConfig,
+  getResourcePollInterval,
+  getTransportConfig,
+  getSessionIdleTimeout,
+  outputConfig,
 } from './config';
 
 // Import utilities
-import { 
-  logger, 
-  generateRequestId, 
-  metricsCollector 
-} from './utils/logger';
-import { globalCache } from './utils/cache';
+import { logger, generateRequestId } from './utils/logger';
+import { globalCache, CacheUtils } from './utils/cache';
 import { globalRateLimiter } from './utils/rate-limiter';
+import {
+  extractUrls,
+  stripTrackingParams,
+  canonicalizeUrl,
+  titleFromUrl,
+} from './utils/urls';
+import { mapWithConcurrency } from './utils/concurrency';
+import { computeUserStats, StatsPeriod } from './utils/stats';
+import { fetchAllPages, isLastPage, PageResponse, PaginatedResult } from './utils/paginator';
+import { matchByName, describeCandidates, NamedItem } from './utils/name-matching';
+import { parseArguments, toInputSchema } from './utils/params';
+import {
+  OutputTemplate,
+  renderSection,
+  stripEmoji,
+  getOutputTemplate,
+  loadTemplatesFile,
+} from './utils/templates';
+import { linkFields, linkDetailFields, collectionFields, tagFields } from './utils/template-fields';
+import {
+  ResourceKind,
+  resourceKey,
+  resourceUri,
+  createSnapshot,
+  LibrarySnapshot,
+  SnapshotDiff,
+} from './utils/resource-diff';
+import {
+  PROMPTS,
+  DEFAULT_TRIAGE_LIMIT,
+  DEFAULT_TAXONOMY_SAMPLE,
+  parsePromptCount,
+  parseDateRange,
+  triageUntaggedPrompt,
+  collectionBriefPrompt,
+  tagTaxonomyPrompt,
+  weeklyRecapPrompt,
+} from './utils/prompts';
+import { outputSchemas } from './schemas';
+import { toolParams } from './tool-params';
 
 // Import services
-import { authService } from './services/auth-service';
-import { apiClient } from './services/api-client';
+import { sessionManager } from './services/session-manager';
+import { SessionAccount, SessionContext } from './services/session-context';
+import { AccountContext } from './services/account-context';
+import { HttpTransport } from './services/http-transport';
 
 // Import types
 import {
@@ -39,97 +102,1106 @@ import {
   PaginatedCollectionResponse,
   GetLinksParams,
   CreateLinkParams,
+  GetLinkParams,
+  UpdateLinkParams,
+  LinkSelectionParams,
+  LinksParseParams,
   GetCollectionsParams,
-  GetTagsParams,
+  CreateCollectionParams,
+  UpdateCollectionParams,
+  DeleteCollectionParams,
+  CreateTagParams,
+  UpdateTagParams,
+  DeleteTagParams,
+  MergeTagsParams,
+  BulkUpdateLinksParams,
   SearchAdvancedParams,
   GetUserStatsParams,
+  ToolResult,
+  FailureEntry,
+  FieldChange,
+  AccountSummary,
+  AuthMethod,
+  AuthStatus,
+  LinkLibraryError,
+  ValidationError,
+  RateLimitError,
 } from './types';
 
-// Create MCP server
-const server = new Server(
-  {
-    name: 'linklibrary-mcp',
-    version: '1.0.0',
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
-  }
-);
+// Helper function to get the session the current request belongs to
+function currentSession(): SessionContext {
+  return sessionManager.current();
+}
+
+// Helper function to get the account the current request runs against
+function currentAccount(): AccountContext {
+  return sessionManager.currentAccount();
+}
 
 // Helper function to ensure authentication
 async function ensureAuthenticated(): Promise<void> {
-  if (!authService.isAuthenticated()) {
-    throw new Error('Authentication required. Please authenticate first.');
+  const account = currentAccount();
+  if (account.auth.isAuthenticated()) {
+    return;
+  }
+
+  // Sign in with the account's token or username/password until that succeeds
+  // (once it has, a logged-out account stays signed out until authenticate)
+  const { diagnostics } = await account.bootstrapAuth();
+  if (!account.auth.isAuthenticated()) {
+    throw new Error(['Authentication required.', ...diagnostics, 'Please authenticate first.'].join(' '));
   }
 }
 
-// Helper function to format links for display
-function formatLinks(links: LinkLibraryLink[]): string {
-  if (links.length === 0) {
-    return 'No links found.';
+// Link fields that can be changed through update_link
+const UPDATABLE_LINK_FIELDS = [
+  'url',
+  'title',
+  'summary',
+  'notes',
+  'collection_id',
+  'tag_ids',
+  'is_favorite',
+] as const;
+
+// Collection fields that can be changed through update_collection
+const UPDATABLE_COLLECTION_FIELDS = [
+  'name',
+  'description',
+  'color',
+  'icon',
+] as const;
+
+// Tag fields that can be changed through update_tag
+const UPDATABLE_TAG_FIELDS = ['name', 'color'] as const;
+
+// Helper function to drop every cached link listing and search result
+function invalidateLinkCaches(): void {
+  currentAccount().cache.invalidatePattern('api:GET:/links');
+  currentAccount().cache.invalidatePattern('/search');
+}
+
+// Helper function to drop every cached collection response
+function invalidateCollectionCaches(): void {
+  currentAccount().cache.invalidatePattern('api:GET:/collections');
+}
+
+// Helper function to drop every cached tag response
+function invalidateTagCaches(): void {
+  currentAccount().cache.invalidatePattern('api:GET:/tags');
+}
+
+// Helper function to copy only the fields a caller actually provided
+function pickDefined<T extends object, K extends keyof T>(
+  source: T,
+  fields: readonly K[],
+): Partial<Pick<T, K>> {
+  const picked: Partial<Pick<T, K>> = {};
+  for (const field of fields) {
+    if (source[field] !== undefined) {
+      picked[field] = source[field];
+    }
+  }
+  return picked;
+}
+
+// Helper function to render a single field value in a change diff
+function formatFieldValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') {
+    return '(empty)';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.join(', ')}]`;
+  }
+  if (typeof value === 'string') {
+    return `"${value}"`;
+  }
+  return String(value);
+}
+
+// Helper function to list the fields whose values differ between two versions of a record
+function diffFields<T extends object>(
+  before: T,
+  after: T,
+  fields: readonly (keyof T & string)[],
+): FieldChange[] {
+  return fields
+    .filter((field) => formatFieldValue(before[field]) !== formatFieldValue(after[field]))
+    .map((field) => ({ field, before: before[field] ?? null, after: after[field] ?? null }));
+}
+
+// Helper function to format the before/after diff of an updated record
+function formatChanges(changes: FieldChange[]): string {
+  if (changes.length === 0) {
+    return 'No fields changed.';
+  }
+
+  const lines = changes.map(
+    (change) => `   • ${change.field}: ${formatFieldValue(change.before)} → ${formatFieldValue(change.after)}`,
+  );
+  return `🔄 Changes:\n${lines.join('\n')}`;
+}
+
+// Helper function to collect the unique link IDs targeted by a bulk-capable tool
+function collectLinkIds(params: LinkSelectionParams): string[] {
+  const ids = [
+    ...(params.link_id ? [params.link_id] : []),
+    ...(params.link_ids || []),
+  ];
+
+  if (ids.length === 0) {
+    throw new ValidationError('Either link_id or link_ids is required');
+  }
+
+  return Array.from(new Set(ids));
+}
+
+// Helper function to fetch the links behind a list of IDs, reporting the ones that can't be found
+async function resolveLinks(ids: string[]): Promise<{
+  found: LinkLibraryLink[];
+  missing: Array<{ id: string; reason: string }>;
+}> {
+  const found: LinkLibraryLink[] = [];
+  const missing: Array<{ id: string; reason: string }> = [];
+
+  for (const id of ids) {
+    try {
+      found.push(await currentAccount().api.get<LinkLibraryLink>(`/links/${id}`));
+    } catch (error) {
+      const reason = error instanceof LinkLibraryError && error.statusCode === 404
+        ? 'not found'
+        : error instanceof Error ? error.message : 'Unknown error';
+      missing.push({ id, reason });
+    }
+  }
+
+  return { found, missing };
+}
+
+// Helper function to format a short preview line per link
+function formatLinkPreview(links: LinkLibraryLink[]): string {
+  return links
+    .map((link) => `   • [${link.id}] ${link.title} — ${link.url}`)
+    .join('\n');
+}
+
+// Helper function to archive or delete a set of links, optionally as a dry run
+async function removeLinks(
+  action: 'delete' | 'archive',
+  params: LinkSelectionParams,
+): Promise<ToolResult> {
+  const pastTense = action === 'delete' ? 'deleted' : 'archived';
+  const ids = collectLinkIds(params);
+  const { found, missing } = await resolveLinks(ids);
+  const dryRun = params.dry_run === true;
+  const data = { action, dry_run: dryRun, matched: found, succeeded: [] as string[], failed: [] as FailureEntry[], missing };
+
+  let result = '';
+
+  if (missing.length > 0) {
+    result += `⚠️ Skipping ${missing.length} link(s):\n`;
+    result += missing.map((entry) => `   • [${entry.id}] ${entry.reason}`).join('\n');
+    result += '\n\n';
   }
 
-  let result = `Found ${links.length} links:\n\n`;
-  
+  if (found.length === 0) {
+    return { text: `${result}No links to ${action}.`, data };
+  }
+
+  if (dryRun) {
+    result += `🔍 Dry run: ${found.length} link(s) would be ${pastTense}:\n`;
+    result += formatLinkPreview(found);
+    return { text: result, data };
+  }
+
+  const succeeded: LinkLibraryLink[] = [];
+  const failed: Array<{ link: LinkLibraryLink; reason: string }> = [];
+
+  for (const link of found) {
+    try {
+      if (action === 'delete') {
+        await currentAccount().api.delete(`/links/${link.id}`);
+      } else {
+        await currentAccount().api.patch(`/links/${link.id}`, { is_archived: true });
+      }
+      succeeded.push(link);
+    } catch (error) {
+      failed.push({
+        link,
+        reason: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  if (succeeded.length > 0) {
+    invalidateLinkCaches();
+    result += `✅ ${succeeded.length} link(s) ${pastTense}:\n`;
+    result += formatLinkPreview(succeeded);
+  }
+
+  if (failed.length > 0) {
+    result += `${succeeded.length > 0 ? '\n\n' : ''}❌ ${failed.length} link(s) failed:\n`;
+    result += failed
+      .map((entry) => `   • [${entry.link.id}] ${entry.link.title} — ${entry.reason}`)
+      .join('\n');
+  }
+
+  data.succeeded = succeeded.map((link) => link.id);
+  data.failed = failed.map((entry) => ({ id: entry.link.id, reason: entry.reason }));
+  return { text: result, data };
+}
+
+// Helper function to index every saved link by canonical URL. The API's search
+// only matches titles, summaries and notes, so the whole (fresh) listing is compared;
+// a listing cut short by PAGINATION_MAX_ITEMS is refused rather than risk a duplicate
+async function fetchSavedLinksByUrl(): Promise<Map<string, LinkLibraryLink>> {
+  const links = requireComplete(await fetchAllLinks({}, true), 'links');
+  const byUrl = new Map<string, LinkLibraryLink>();
   for (const link of links) {
-    result += `📌 ${link.title}\n`;
-    result += `🔗 ${link.url}\n`;
-    if (link.summary) {
-      result += `📝 ${link.summary.substring(0, 100)}${link.summary.length > 100 ? '...' : ''}\n`;
+    const canonical = canonicalizeUrl(link.url);
+    if (canonical && !byUrl.has(canonical)) {
+      byUrl.set(canonical, link);
     }
-    result += `⭐ ${link.is_favorite ? 'Favorite' : 'Not favorite'}\n`;
-    result += `📅 ${link.created_at.substring(0, 10)}\n`;
-    result += '---\n';
   }
-  
-  return result;
+  return byUrl;
 }
 
-// Helper function to format collections for display
-function formatCollections(collections: LinkLibraryCollection[]): string {
-  if (!collections || !Array.isArray(collections)) {
-    return 'No collections found or invalid response format.';
+// Helper function to find a saved link pointing at the same page as a URL
+async function findExistingLink(url: string): Promise<LinkLibraryLink | null> {
+  const canonical = canonicalizeUrl(url);
+  if (!canonical) {
+    return null;
+  }
+  return (await fetchSavedLinksByUrl()).get(canonical) || null;
+}
+
+// Helper function to create a link, handling duplicates of an already saved page
+async function createLink(params: CreateLinkParams): Promise<ToolResult> {
+  if (!params.url || !params.title) {
+    throw new ValidationError('url and title are required');
+  }
+
+  const url = stripTrackingParams(params.url);
+  if (!url) {
+    throw new ValidationError(`Invalid URL: ${params.url}`);
+  }
+
+  const onDuplicate = params.on_duplicate || 'skip';
+  const fields = { ...pickDefined(params, UPDATABLE_LINK_FIELDS), url };
+
+  if (onDuplicate !== 'create') {
+    const existing = await findExistingLink(url);
+
+    if (existing && onDuplicate === 'skip') {
+      let result = '⚠️ This page is already bookmarked, so nothing was created.\n\n';
+      result += `📌 ${existing.title}\n🆔 ${existing.id}\n🔗 ${existing.url}\n`;
+      result += '\nUse on_duplicate: "update" to update it or "create" to save another copy.';
+      return { text: result, data: { status: 'skipped', link: existing } };
+    }
+
+    if (existing) {
+      // Keep the saved URL; only the metadata is refreshed
+      const updates = pickDefined(params, UPDATABLE_LINK_FIELDS.filter((field) => field !== 'url'));
+      const after = await currentAccount().api.patch<LinkLibraryLink>(`/links/${existing.id}`, updates);
+      invalidateLinkCaches();
+
+      const changes = diffFields(existing, after, UPDATABLE_LINK_FIELDS);
+      let result = `✅ Existing bookmark updated instead of creating a duplicate.\n\n📌 ${after.title}\n🆔 ${after.id}\n🔗 ${after.url}\n\n`;
+      result += formatChanges(changes);
+      return { text: result, data: { status: 'updated', link: after, changes } };
+    }
+  }
+
+  const data = await currentAccount().api.post<LinkLibraryLink>('/links', fields);
+
+  // Invalidate cache for links
+  invalidateLinkCaches();
+
+  return {
+    text: `✅ Bookmark created successfully!\n\n📌 ${data.title}\n🔗 ${data.url}\n📝 ${data.summary || 'No summary'}`,
+    data: { status: 'created', link: data },
+  };
+}
+
+// Helper function to extract URLs from text and optionally save the new ones
+async function parseLinks(params: LinksParseParams): Promise<ToolResult> {
+  if (!params.text) {
+    throw new ValidationError('text is required');
+  }
+
+  const candidates = extractUrls(params.text);
+  const urls: Array<{ url: string; title: string; status: string; link_id?: string; error?: string }> = [];
+  if (candidates.length === 0) {
+    return {
+      text: 'No URLs found in the provided text.',
+      data: { urls, totals: { found: 0, new: 0, existing: 0, created: 0, failed: 0 } },
+    };
+  }
+
+  // One listing for the whole call; the extracted URLs are already unique pages
+  const saved = await fetchSavedLinksByUrl();
+  const lines: string[] = [];
+  let created = 0;
+  let existing = 0;
+  let failed = 0;
+
+  for (const candidate of candidates) {
+    const title = candidate.label || titleFromUrl(candidate.url);
+
+    try {
+      const match = saved.get(canonicalizeUrl(candidate.url) || '');
+      if (match) {
+        existing++;
+        urls.push({ url: candidate.url, title, status: 'existing', link_id: match.id });
+        lines.push(`   • ⏭️ ${candidate.url} — already saved as [${match.id}] ${match.title}`);
+        continue;
+      }
+
+      if (!params.create) {
+        urls.push({ url: candidate.url, title, status: 'new' });
+        lines.push(`   • 🆕 ${candidate.url} — ${title}`);
+        continue;
+      }
+
+      const link = await currentAccount().api.post<LinkLibraryLink>('/links', {
+        url: candidate.url,
+        title,
+        collection_id: params.collection_id,
+        tag_ids: params.tag_ids,
+        is_favorite: params.is_favorite,
+      });
+      created++;
+      urls.push({ url: candidate.url, title, status: 'created', link_id: link.id });
+      lines.push(`   • ✅ ${candidate.url} — created [${link.id}] ${link.title}`);
+    } catch (error) {
+      failed++;
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      urls.push({ url: candidate.url, title, status: 'failed', error: reason });
+      lines.push(`   • ❌ ${candidate.url} — ${reason}`);
+    }
+  }
+
+  if (created > 0) {
+    invalidateLinkCaches();
+  }
+
+  let result = `Found ${candidates.length} URL(s) in text`;
+  if (params.create) {
+    result += ` (${created} created, ${existing} already saved, ${failed} failed)`;
+  } else {
+    result += ` (${candidates.length - existing - failed} new, ${existing} already saved)`;
+  }
+  result += `:\n\n${lines.join('\n')}`;
+
+  const totals = {
+    found: candidates.length,
+    new: params.create ? 0 : candidates.length - existing - failed,
+    existing,
+    created,
+    failed,
+  };
+  return { text: result, data: { urls, totals } };
+}
+
+// Helper function to fetch one page of links for a set of query filters (fresh: skip the cache)
+function fetchLinksPage(filters: Record<string, string>, skip: number, limit: number, fresh = false) {
+  const queryParams = new URLSearchParams({
+    ...filters,
+    skip: skip.toString(),
+    limit: limit.toString(),
+  });
+  return currentAccount().api.get<LinkLibrarySearchResult>(`/links?${queryParams.toString()}`, { fresh });
+}
+
+// Helper function to describe one page of a links or search response
+function describePage(data: LinkLibrarySearchResult, skip = 0, limit?: number) {
+  const total = typeof data.total === 'number' ? data.total : null;
+  return {
+    skip,
+    limit: limit ?? (typeof data.limit === 'number' ? data.limit : null),
+    returned: data.items.length,
+    total,
+    has_more: total !== null && skip + data.items.length < total,
+    truncated: false,
+  };
+}
+
+// Helper function to fetch every link matching a filter, page by page
+function fetchAllLinks(filters: Record<string, string>, fresh = false): Promise<PaginatedResult<LinkLibraryLink>> {
+  return fetchAllPages(
+    (skip, limit) => fetchLinksPage(filters, skip, limit, fresh),
+    { label: 'links' },
+  );
+}
+
+// Helper function to fetch every advanced-search match, page by page
+function fetchAllSearchResults(
+  params: Omit<SearchAdvancedParams, 'limit' | 'skip'>,
+): Promise<PaginatedResult<LinkLibraryLink>> {
+  return fetchAllPages(
+    (skip, limit) => currentAccount().api.post<LinkLibrarySearchResult>('/search/link', { ...params, skip, limit }),
+    { label: 'search' },
+  );
+}
+
+// Helper function to fetch every collection, page by page
+function fetchAllCollections(fresh = false): Promise<PaginatedResult<LinkLibraryCollection>> {
+  return fetchAllPages(
+    (skip, limit) =>
+      currentAccount().api.get<PaginatedCollectionResponse>(`/collections?skip=${skip}&limit=${limit}`, { fresh }),
+    { label: 'collections' },
+  );
+}
+
+// Helper function to fetch every tag, page by page
+function fetchAllTags(fresh = false): Promise<PaginatedResult<LinkLibraryTag>> {
+  return fetchAllPages(
+    (skip, limit) => currentAccount().api.get<PaginatedTagResponse>(`/tags?skip=${skip}&limit=${limit}`, { fresh }),
+    { label: 'tags' },
+  );
+}
+
+// Helper function to refuse a change that would only see the part of a listing under the cap
+function requireComplete<T>(result: PaginatedResult<T>, label: string): T[] {
+  if (result.truncated) {
+    throw new ValidationError(
+      `Only ${result.items.length} of ${result.total ?? 'more'} ${label} could be loaded (PAGINATION_MAX_ITEMS), so nothing was changed. Raise PAGINATION_MAX_ITEMS or narrow the selection.`,
+    );
+  }
+  return result.items;
+}
+
+// Helper function to warn that a listing stopped at the cap, or '' when it is complete
+function truncationNote(
+  result: PaginatedResult<unknown>,
+  label: string,
+  hint = 'Raise PAGINATION_MAX_ITEMS to see the rest.',
+): string {
+  if (!result.truncated) {
+    return '';
+  }
+  return `\n⚠️ Stopped at ${result.items.length} of ${result.total ?? 'more'} ${label} (PAGINATION_MAX_ITEMS). ${hint}`;
+}
+
+// Helper function to delete a collection, optionally moving its links elsewhere first
+async function deleteCollection(params: DeleteCollectionParams): Promise<ToolResult> {
+  const { collection_id: collectionId, move_links_to: targetId } = params;
+
+  if (!collectionId) {
+    throw new ValidationError('collection_id or collection is required');
+  }
+  if (targetId === collectionId) {
+    throw new ValidationError('move_links_to must be a different collection');
+  }
+
+  // Work from fresh data since this is destructive
+  invalidateCollectionCaches();
+  invalidateLinkCaches();
+
+  const collection = await currentAccount().api.get<LinkLibraryCollection>(`/collections/${collectionId}`);
+  if (collection.is_default) {
+    throw new ValidationError(`Collection "${collection.name}" is a default collection and cannot be deleted`);
+  }
+
+  let result = '';
+  const collectionRef = { id: collection.id, name: collection.name };
+  const data: Record<string, unknown> = { collection: collectionRef, link_count: collection.link_count };
+
+  if (targetId !== undefined) {
+    const target = await currentAccount().api.get<LinkLibraryCollection>(`/collections/${targetId}`);
+    const links = requireComplete(await fetchAllLinks({ collection_id: collectionId.toString() }), 'links to move');
+    const failed: Array<{ link: LinkLibraryLink; reason: string }> = [];
+    data.move_target = { id: target.id, name: target.name };
+
+    for (const link of links) {
+      try {
+        await currentAccount().api.patch(`/links/${link.id}`, { collection_id: targetId });
+      } catch (error) {
+        failed.push({ link, reason: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    invalidateLinkCaches();
+    data.moved = links.length - failed.length;
+    data.failed = failed.map((entry): FailureEntry => ({ id: entry.link.id, reason: entry.reason }));
+
+    if (failed.length > 0) {
+      invalidateCollectionCaches();
+      result = `❌ Moved ${links.length - failed.length} of ${links.length} link(s) to "${target.name}", `;
+      result += `but ${failed.length} failed, so "${collection.name}" was not deleted:\n`;
+      result += failed
+        .map((entry) => `   • [${entry.link.id}] ${entry.link.title} — ${entry.reason}`)
+        .join('\n');
+      return { text: result, data: { status: 'aborted', ...data } };
+    }
+
+    result = `📦 Moved ${links.length} link(s) to "${target.name}".\n`;
+  } else if (collection.link_count > 0 && !params.confirm) {
+    result = `⚠️ Collection "${collection.name}" still contains ${collection.link_count} link(s).\n\n`;
+    result += 'To continue, call delete_collection again with either:\n';
+    result += '   • move_links_to: <collection id> to move the links before deleting, or\n';
+    result += '   • confirm: true to delete it and let LinkLibrary handle the links';
+    return { text: result, data: { status: 'needs_confirmation', ...data } };
+  }
+
+  await currentAccount().api.delete(`/collections/${collectionId}`);
+  invalidateCollectionCaches();
+  invalidateLinkCaches();
+
+  result += `✅ Collection "${collection.name}" deleted.`;
+  return { text: result, data: { status: 'deleted', ...data } };
+}
+
+// Helper function to delete a tag, requiring confirmation when links still carry it
+async function deleteTag(params: DeleteTagParams): Promise<ToolResult> {
+  const { tag_id: tagId } = params;
+
+  if (!tagId) {
+    throw new ValidationError('tag_id or tag is required');
+  }
+
+  invalidateTagCaches();
+  const tag = await currentAccount().api.get<LinkLibraryTag>(`/tags/${tagId}`);
+  const data = { tag: { id: tag.id, name: tag.name }, link_count: tag.link_count };
+
+  if (tag.link_count > 0 && !params.confirm) {
+    let result = `⚠️ Tag "${tag.name}" is applied to ${tag.link_count} link(s), which will lose it if deleted.\n\n`;
+    result += 'Call delete_tag again with confirm: true to delete it anyway.';
+    return { text: result, data: { status: 'needs_confirmation', ...data } };
+  }
+
+  await currentAccount().api.delete(`/tags/${tagId}`);
+  invalidateTagCaches();
+  invalidateLinkCaches();
+
+  return {
+    text: `✅ Tag "${tag.name}" deleted. ${tag.link_count} link(s) lost the tag.`,
+    data: { status: 'deleted', ...data },
+  };
+}
+
+// Helper function to pick exactly one item by name, with errors that list the candidates.
+// With fuzzy off only exact and separator-insensitive matches count, and a near
+// match is returned as a candidate for the caller to confirm by ID or exact name.
+function requireNamedMatch<T extends NamedItem>(items: T[], name: string, kind: string, fuzzy = true): T {
+  const match = matchByName(items, name, fuzzy);
+
+  if (match.status === 'found') {
+    return match.item;
+  }
+  if (match.status === 'ambiguous') {
+    throw new ValidationError(
+      `${kind} name "${name}" is ambiguous. Candidates: ${describeCandidates(match.candidates)}. Use the ID instead.`,
+    );
+  }
+
+  if (!fuzzy) {
+    const loose = matchByName(items, name);
+    if (loose.status !== 'missing') {
+      const candidates = loose.status === 'found' ? [loose.item] : loose.candidates;
+      throw new ValidationError(
+        `No ${kind.toLowerCase()} is named exactly "${name}", and near matches are not used for this change. ` +
+          `Candidates: ${describeCandidates(candidates)}. Pass the ID or the exact name to confirm.`,
+      );
+    }
+  }
+
+  const hint = match.suggestions.length > 0
+    ? ` Did you mean ${describeCandidates(match.suggestions)}?`
+    : '';
+  throw new ValidationError(`No ${kind.toLowerCase()} named "${name}".${hint}`);
+}
+
+// Helper function to find an item by ID or name (fuzzy: see requireNamedMatch). Numbers
+// are IDs; a string of digits is only taken as an ID when no item has exactly that
+// name, so a tag named "2024" can still be addressed by name
+function resolveByIdOrName<T extends NamedItem>(items: T[], ref: number | string, kind: string, fuzzy = true): T {
+  if (typeof ref === 'string' && !/^\d+$/.test(ref.trim())) {
+    return requireNamedMatch(items, ref, kind, fuzzy);
+  }
+
+  const item = (typeof ref === 'string' && items.find((candidate) => candidate.name.trim() === ref.trim()))
+    || items.find((candidate) => candidate.id === Number(ref));
+  if (!item) {
+    throw new ValidationError(`Unknown ${kind.toLowerCase()}: ${ref}`);
+  }
+  return item;
+}
+
+// Helper function to find a tag by ID or name
+function resolveTag(tags: LinkLibraryTag[], ref: number | string, fuzzy = true): LinkLibraryTag {
+  return resolveByIdOrName(tags, ref, 'Tag', fuzzy);
+}
+
+// Helper function to find a collection by ID or name
+function resolveCollection(collections: LinkLibraryCollection[], ref: string): LinkLibraryCollection {
+  return resolveByIdOrName(collections, ref, 'Collection');
+}
+
+// Helper function to load collections and tags at most once per tool call for name lookups
+// (fuzzy: see requireNamedMatch)
+function createNameLookup(fuzzy = true) {
+  let collections: Promise<LinkLibraryCollection[]> | null = null;
+  let tags: Promise<LinkLibraryTag[]> | null = null;
+
+  return {
+    async collectionId(name: string): Promise<number> {
+      await ensureAuthenticated();
+      collections = collections || fetchAllCollections().then((result) => result.items);
+      return requireNamedMatch(await collections, name, 'Collection', fuzzy).id;
+    },
+
+    async tagId(name: string, createMissing: boolean): Promise<number> {
+      await ensureAuthenticated();
+      tags = tags || fetchAllTags().then((result) => result.items);
+      const known = await tags;
+
+      if (!createMissing) {
+        return requireNamedMatch(known, name, 'Tag', fuzzy).id;
+      }
+
+      // Only exact matches count when creating, so a near-miss never gets applied silently
+      const match = matchByName(known, name, false);
+      if (match.status === 'found') {
+        return match.item.id;
+      }
+      if (match.status === 'ambiguous') {
+        throw new ValidationError(
+          `Tag name "${name}" is ambiguous. Candidates: ${describeCandidates(match.candidates)}. Use the ID instead.`,
+        );
+      }
+
+      const created = await currentAccount().api.post<LinkLibraryTag>('/tags', { name: name.trim() });
+      known.push(created);
+      invalidateTagCaches();
+      return created.id;
+    },
+  };
+}
+
+// Read-only tools, where a near match only changes what is shown. Every other tool
+// changes records, so names there must match exactly or separator-insensitively
+// rather than by typo tolerance
+const FUZZY_NAME_TOOLS = ['get_links', 'search_advanced'];
+
+// Helper function to combine an explicit ID with one resolved from a name, rejecting conflicts
+function mergeResolvedId(id: unknown, resolved: number, field: string, name: string): number {
+  if (id !== undefined && id !== null && Number(id) !== resolved) {
+    throw new ValidationError(`${field} ${id} and "${name}" refer to different records`);
+  }
+  return resolved;
+}
+
+// Helper function to replace collection and tag names in tool arguments with their IDs.
+// Every tool accepts `collection`/`collections`/`tags`/`tag` (and `move_links_to_collection`)
+// next to the matching ID fields; nested `filter` objects are resolved the same way.
+async function resolveNamedReferences(
+  args: Record<string, unknown>,
+  lookup: ReturnType<typeof createNameLookup> = createNameLookup(),
+): Promise<void> {
+  const singles: Array<[string, string, 'collection' | 'tag']> = [
+    ['collection', 'collection_id', 'collection'],
+    ['move_links_to_collection', 'move_links_to', 'collection'],
+    ['tag', 'tag_id', 'tag'],
+  ];
+
+  for (const [nameField, idField, kind] of singles) {
+    const name = args[nameField];
+    if (typeof name !== 'string' || name.trim() === '') continue;
+
+    const resolved = kind === 'collection'
+      ? await lookup.collectionId(name)
+      : await lookup.tagId(name, false);
+    args[idField] = mergeResolvedId(args[idField], resolved, idField, name);
+    delete args[nameField];
+  }
+
+  const lists: Array<[string, string, 'collection' | 'tag']> = [
+    ['collections', 'collection_ids', 'collection'],
+    ['tags', 'tag_ids', 'tag'],
+  ];
+
+  for (const [nameField, idField, kind] of lists) {
+    const names = args[nameField];
+    if (!Array.isArray(names) || names.length === 0) continue;
+
+    const ids = Array.isArray(args[idField]) ? [...(args[idField] as number[])] : [];
+    for (const name of names) {
+      ids.push(kind === 'collection'
+        ? await lookup.collectionId(String(name))
+        : await lookup.tagId(String(name), args.create_missing_tags === true));
+    }
+    args[idField] = Array.from(new Set(ids));
+    delete args[nameField];
+  }
+
+  delete args.create_missing_tags;
+
+  if (args.filter && typeof args.filter === 'object') {
+    await resolveNamedReferences(args.filter as Record<string, unknown>, lookup);
+  }
+}
+
+// Helper function to fold several source tags into a target tag across every link
+async function mergeTags(params: MergeTagsParams): Promise<ToolResult> {
+  if (!params.source_tags || params.source_tags.length === 0) {
+    throw new ValidationError('source_tags must list at least one tag');
+  }
+  if (params.target_tag === undefined || params.target_tag === '') {
+    throw new ValidationError('target_tag is required');
+  }
+
+  // Work from fresh data since this rewrites many links
+  invalidateTagCaches();
+  invalidateLinkCaches();
+
+  const tags = requireComplete(await fetchAllTags(), 'tags');
+  const target = resolveTag(tags, params.target_tag, false);
+  const sources = Array.from(
+    new Map(
+      params.source_tags
+        // The source tags get deleted, so their names must not be guessed
+        .map((ref) => resolveTag(tags, ref, false))
+        .filter((tag) => tag.id !== target.id)
+        .map((tag) => [tag.id, tag]),
+    ).values(),
+  );
+
+  if (sources.length === 0) {
+    throw new ValidationError('source_tags must include at least one tag other than the target');
+  }
+
+  const sourceIds = new Set(sources.map((tag) => tag.id));
+  const affected = new Map<string, { link: LinkLibraryLink; tagIds: number[] }>();
+
+  for (const source of sources) {
+    const links = requireComplete(await fetchAllLinks({ tag_ids: source.id.toString() }), `links tagged "${source.name}"`);
+    for (const link of links) {
+      const current = link.tag_ids || [];
+      if (affected.has(link.id) || !current.some((id) => sourceIds.has(id))) {
+        continue;
+      }
+      const tagIds = Array.from(new Set(current.map((id) => (sourceIds.has(id) ? target.id : id))));
+      affected.set(link.id, { link, tagIds });
+    }
+  }
+
+  const sourceNames = sources.map((tag) => `"${tag.name}"`).join(', ');
+  const changes = Array.from(affected.values());
+  const data = {
+    target: { id: target.id, name: target.name },
+    sources: sources.map((tag) => ({ id: tag.id, name: tag.name })),
+    links: changes.map((change) => change.link),
+  };
+
+  if (params.dry_run) {
+    let result = `🔍 Dry run: merging ${sourceNames} into "${target.name}" would change ${changes.length} link(s)`;
+    result += ` and delete ${sources.length} tag(s).`;
+    if (changes.length > 0) {
+      result += `\n\n${formatLinkPreview(changes.map((change) => change.link))}`;
+    }
+    return {
+      text: result,
+      data: { dry_run: true, ...data, updated: 0, failed: [], deleted_tags: [], kept_tags: [] },
+    };
+  }
+
+  const failed: Array<{ link: LinkLibraryLink; reason: string }> = [];
+  for (const { link, tagIds } of changes) {
+    try {
+      await currentAccount().api.patch(`/links/${link.id}`, { tag_ids: tagIds });
+    } catch (error) {
+      failed.push({ link, reason: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+
+  let result = `🔀 Merged ${sourceNames} into "${target.name}": ${changes.length - failed.length} of ${changes.length} link(s) retagged.`;
+  const deletedTags: Array<{ id: number; name: string }> = [];
+  const keptTags: FailureEntry[] = [];
+
+  if (failed.length > 0) {
+    result += `\n\n❌ ${failed.length} link(s) failed, so the source tags were kept:\n`;
+    result += failed
+      .map((entry) => `   • [${entry.link.id}] ${entry.link.title} — ${entry.reason}`)
+      .join('\n');
+  } else {
+    const deleted: string[] = [];
+    const kept: string[] = [];
+    for (const source of sources) {
+      try {
+        await currentAccount().api.delete(`/tags/${source.id}`);
+        deleted.push(source.name);
+        deletedTags.push({ id: source.id, name: source.name });
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : 'Unknown error';
+        kept.push(`${source.name} (${reason})`);
+        keptTags.push({ id: source.id, reason });
+      }
+    }
+    if (deleted.length > 0) {
+      result += `\n🗑️ Deleted tag(s): ${deleted.join(', ')}`;
+    }
+    if (kept.length > 0) {
+      result += `\n⚠️ Could not delete: ${kept.join(', ')}`;
+    }
+  }
+
+  invalidateTagCaches();
+  invalidateLinkCaches();
+
+  return {
+    text: result,
+    data: {
+      dry_run: false,
+      ...data,
+      updated: changes.length - failed.length,
+      failed: failed.map((entry): FailureEntry => ({ id: entry.link.id, reason: entry.reason })),
+      deleted_tags: deletedTags,
+      kept_tags: keptTags,
+    },
+  };
+}
+
+// Upper bound on how many links a single bulk_update_links call may touch
+const BULK_UPDATE_MAX_LINKS = 1000;
+
+// Helper function to work out which links a bulk operation applies to
+async function resolveBulkTargets(
+  params: BulkUpdateLinksParams,
+): Promise<Array<{ id: string; link?: LinkLibraryLink }>> {
+  if (params.link_ids && params.link_ids.length > 0) {
+    return Array.from(new Set(params.link_ids)).map((id) => ({ id }));
+  }
+
+  const filter = params.filter;
+  if (!filter || Object.values(filter).every((value) => value === undefined)) {
+    throw new ValidationError('Either link_ids or a non-empty filter is required');
+  }
+
+  // Read fresh data so a recent change doesn't hide or duplicate matches
+  let found: PaginatedResult<LinkLibraryLink>;
+  if (filter.query) {
+    found = await fetchAllSearchResults({
+      query: filter.query,
+      operator: filter.operator,
+      collection_ids: filter.collection_ids,
+      tag_ids: filter.tag_ids,
+    });
+  } else {
+    const filters: Record<string, string> = {};
+    if (filter.collection_id) filters.collection_id = filter.collection_id.toString();
+    if (filter.tag_ids) filters.tag_ids = filter.tag_ids.join(',');
+    if (filter.search) filters.search = filter.search;
+    if (filter.is_favorite !== undefined) filters.is_favorite = filter.is_favorite.toString();
+    found = await fetchAllLinks(filters, true);
+  }
+
+  return requireComplete(found, 'matching links').map((link) => ({ id: link.id, link }));
+}
+
+// Helper function to compute the change a bulk operation makes to one link, or null if none
+function computeBulkUpdate(
+  link: LinkLibraryLink,
+  params: BulkUpdateLinksParams,
+): Partial<CreateLinkParams> | null {
+  const currentTags = link.tag_ids || [];
+
+  switch (params.operation) {
+    case 'move':
+      return link.collection_id === params.collection_id
+        ? null
+        : { collection_id: params.collection_id };
+    case 'add_tags': {
+      const tagIds = Array.from(new Set([...currentTags, ...(params.tag_ids || [])]));
+      return tagIds.length === currentTags.length ? null : { tag_ids: tagIds };
+    }
+    case 'remove_tags': {
+      const tagIds = currentTags.filter((id) => !(params.tag_ids || []).includes(id));
+      return tagIds.length === currentTags.length ? null : { tag_ids: tagIds };
+    }
+    case 'set_favorite':
+      return link.is_favorite ? null : { is_favorite: true };
+    case 'clear_favorite':
+      return link.is_favorite ? { is_favorite: false } : null;
+    default:
+      throw new ValidationError(`Unknown operation: ${params.operation}`);
+  }
+}
+
+// Helper function to apply one operation to many links with bounded concurrency
+async function bulkUpdateLinks(params: BulkUpdateLinksParams): Promise<ToolResult> {
+  const { operation } = params;
+
+  if (operation === 'move' && !params.collection_id) {
+    throw new ValidationError('collection_id or collection is required for the move operation');
+  }
+  if ((operation === 'add_tags' || operation === 'remove_tags') && !params.tag_ids?.length) {
+    throw new ValidationError(`tag_ids or tags is required for the ${operation} operation`);
+  }
+  if (!['move', 'add_tags', 'remove_tags', 'set_favorite', 'clear_favorite'].includes(operation)) {
+    throw new ValidationError(`Unknown operation: ${operation}`);
+  }
+
+  const targets = await resolveBulkTargets(params);
+  if (targets.length === 0) {
+    return {
+      text: 'No links matched.',
+      data: { operation, matched: 0, updated: 0, unchanged: 0, failed: 0, results: [] },
+    };
+  }
+  if (targets.length > BULK_UPDATE_MAX_LINKS) {
+    throw new ValidationError(
+      `${targets.length} links matched, which exceeds the limit of ${BULK_UPDATE_MAX_LINKS} per call. Narrow the filter.`,
+    );
+  }
+
+  // Each account has its own bulk budget, like the API client's rate limits
+  const rateLimitKey = `bulk:${currentAccount().name}:links`;
+  const results = await mapWithConcurrency(targets, getBulkConcurrency(), async (target) => {
+    if (!(await globalRateLimiter.acquire(rateLimitKey))) {
+      throw new RateLimitError('Timed out waiting for a rate limit slot');
+    }
+
+    // The update is computed from the link's current fields (tag_ids is sent whole), so read it fresh
+    const link =
+      target.link || (await currentAccount().api.get<LinkLibraryLink>(`/links/${target.id}`, { fresh: true }));
+    const updates = computeBulkUpdate(link, params);
+    if (updates) {
+      await currentAccount().api.patch(`/links/${link.id}`, updates);
+    }
+
+    return { link, changed: updates !== null };
+  });
+
+  const lines: string[] = [];
+  const entries: Array<{ id: string; title?: string; status: string; error?: string }> = [];
+  let updated = 0;
+  let unchanged = 0;
+  let failed = 0;
+
+  results.forEach((outcome, index) => {
+    if (outcome.status === 'rejected') {
+      failed++;
+      const reason = outcome.reason instanceof Error ? outcome.reason.message : 'Unknown error';
+      const label = targets[index].link ? `[${targets[index].id}] ${targets[index].link?.title}` : `[${targets[index].id}]`;
+      lines.push(`   • ❌ ${label} — ${reason}`);
+      entries.push({ id: targets[index].id, title: targets[index].link?.title, status: 'failed', error: reason });
+    } else if (outcome.value.changed) {
+      updated++;
+      lines.push(`   • ✅ [${outcome.value.link.id}] ${outcome.value.link.title}`);
+      entries.push({ id: outcome.value.link.id, title: outcome.value.link.title, status: 'updated' });
+    } else {
+      unchanged++;
+      lines.push(`   • ⏭️ [${outcome.value.link.id}] ${outcome.value.link.title} — already up to date`);
+      entries.push({ id: outcome.value.link.id, title: outcome.value.link.title, status: 'unchanged' });
+    }
+  });
+
+  if (updated > 0) {
+    invalidateLinkCaches();
   }
-  if (collections.length === 0) {
-    return 'No collections found.';
+  if (updated > 0 && (operation === 'move' || operation.endsWith('_tags'))) {
+    invalidateCollectionCaches();
+    invalidateTagCaches();
+  }
+
+  let result = `🧰 ${operation}: ${targets.length} link(s) matched — ${updated} updated, ${unchanged} unchanged, ${failed} failed\n\n`;
+  result += lines.join('\n');
+  return {
+    text: result,
+    data: { operation, matched: targets.length, updated, unchanged, failed, results: entries },
+  };
+}
+
+// How long computed statistics are reused before being recalculated
+const STATS_CACHE_TTL_MS = 60000;
+
+// Flipped off once the API reports it has no stats endpoint, so we stop asking
+let statsEndpointAvailable = true;
+
+interface UserStatsResult {
+  stats: LinkLibraryUserStats;
+  source: 'api' | 'computed';
+  // Computed from listings that stopped at the PAGINATION_MAX_ITEMS cap
+  truncated: boolean;
+}
+
+// Helper function to get user statistics from the API, or compute them from the library
+async function getUserStats(period: StatsPeriod): Promise<UserStatsResult> {
+  const cacheKey = `stats:${period}`;
+  const cached = currentAccount().cache.get<UserStatsResult>(cacheKey);
+  if (cached) {
+    return cached;
   }
 
-  let result = `Found ${collections.length} collections:\n\n`;
-  
-  for (const collection of collections) {
-    result += `📁 ${collection.name}\n`;
-    if (collection.description) {
-      result += `   📝 ${collection.description}\n`;
+  let stats: LinkLibraryUserStats | null = null;
+  let source: 'api' | 'computed' = 'api';
+  let truncated = false;
+
+  if (statsEndpointAvailable) {
+    try {
+      const response = await currentAccount().api.get<LinkLibraryUserStats>(`/analytics/user-stats?period=${period}`);
+      if (typeof response?.total_links === 'number') {
+        stats = response;
+      }
+    } catch (error) {
+      if (error instanceof LinkLibraryError && (error.statusCode === 404 || error.statusCode === 405)) {
+        statsEndpointAvailable = false;
+      }
+      logger.debug('Stats endpoint unavailable, computing stats locally', {
+        operation: 'user_stats_fallback',
+        reason: error instanceof Error ? error.message : 'Unknown error',
+      });
     }
-    result += `   🔗 ${collection.link_count} links\n`;
-    result += `   🎨 Color: ${collection.color || 'default'}\n`;
-    result += '---\n';
   }
-  
+
+  if (!stats) {
+    const [links, collections, tags] = await Promise.all([
+      fetchAllLinks({}),
+      fetchAllCollections(),
+      fetchAllTags(),
+    ]);
+    stats = computeUserStats(links.items, collections.items, tags.items, period);
+    source = 'computed';
+    truncated = links.truncated || collections.truncated || tags.truncated;
+  }
+
+  const result = { stats, source, truncated };
+  currentAccount().cache.set(cacheKey, result, STATS_CACHE_TTL_MS);
   return result;
 }
 
+// Helper function to format links for display
+function formatLinks(links: LinkLibraryLink[], template: OutputTemplate): string {
+  return renderSection(template, 'links', links.map(linkFields));
+}
+
+// Helper function to format every field of a single link for display
+function formatLinkDetail(
+  link: LinkLibraryLink,
+  collections: LinkLibraryCollection[],
+  tags: LinkLibraryTag[],
+  template: OutputTemplate,
+): string {
+  return renderSection(template, 'link', [linkDetailFields(link, collections, tags)]);
+}
+
+// Helper function to format collections for display
+function formatCollections(collections: LinkLibraryCollection[], template: OutputTemplate): string {
+  if (!collections || !Array.isArray(collections)) {
+    return 'No collections found or invalid response format.';
+  }
+
+  return renderSection(template, 'collections', collections.map(collectionFields));
+}
+
 // Helper function to format tags for display
-function formatTags(tags: LinkLibraryTag[]): string {
+function formatTags(tags: LinkLibraryTag[], template: OutputTemplate): string {
   if (!tags || !Array.isArray(tags)) {
     return 'No tags found or invalid response format.';
   }
-  if (tags.length === 0) {
-    return 'No tags found.';
-  }
 
-  let result = `Found ${tags.length} tags:\n\n`;
-  
-  for (const tag of tags) {
-    result += `🏷️ ${tag.name}\n`;
-    result += `   🎨 Color: ${tag.color || 'default'}\n`;
-    result += `   🔗 ${tag.link_count} links\n`;
-    result += '---\n';
-  }
-  
-  return result;
+  return renderSection(template, 'tags', tags.map(tagFields));
 }
 
 // Helper function to format user stats for display
@@ -159,281 +1231,620 @@ function formatUserStats(stats: LinkLibraryUserStats, period: string): string {
   return result;
 }
 
+// Credential settings an account profile can configure, as list_accounts names them
+const ACCOUNT_CREDENTIAL_FIELDS = ['token', 'password', 'password_file', 'credential_helper'] as const;
+
+// Helper function to summarize a configured account for list_accounts and whoami
+function summarizeAccount({ profile, active, context }: SessionAccount): AccountSummary {
+  const user = context?.auth.getCurrentUserSync() || null;
+  return {
+    name: profile.name,
+    active,
+    signed_in: !!user,
+    email: user?.email || profile.username || null,
+    credentials: ACCOUNT_CREDENTIAL_FIELDS.filter((field) => profile[field]),
+  };
+}
+
+// Helper function to summarize the account the current request runs against
+function summarizeCurrentAccount(): AccountSummary {
+  const account = currentAccount();
+  return summarizeAccount({
+    profile: account.profile,
+    active: account.name === currentSession().getActiveAccountName(),
+    context: account,
+  });
+}
+
+// How each sign-in method is described by whoami
+const AUTH_METHOD_LABELS: Record<AuthMethod, string> = {
+  env_token: 'configured token',
+  persisted_token: 'token saved in the credential store',
+  password: 'password login',
+};
+
+// Helper function to format whoami's report for display
+function formatWhoami(account: AccountSummary, status: AuthStatus, problem: string | null): string {
+  const scope = account.active ? '' : ' (not the active account)';
+  if (!status.isAuthenticated) {
+    return `👤 Account "${account.name}"${scope}: not signed in. ${problem}`;
+  }
+
+  let result = `👤 Account "${account.name}"${scope}: signed in as ${status.userDisplayName} <${status.userEmail}>\n`;
+  result += `🔑 Signed in with: ${status.method ? AUTH_METHOD_LABELS[status.method] : 'unknown'}\n`;
+  result += `⏳ Token expires: ${status.tokenExpiresAt?.toISOString() || 'no expiry in the token'}\n`;
+  result += `🔄 Next refresh: ${status.refreshAt?.toISOString() || 'not scheduled'}\n`;
+  return result;
+}
+
+// Helper function to format configured accounts for display
+function formatAccounts(accounts: AccountSummary[]): string {
+  let result = `👥 ${accounts.length} configured account${accounts.length === 1 ? '' : 's'}:\n\n`;
+  for (const account of accounts) {
+    const marker = account.active ? ' (active)' : '';
+    const state = account.signed_in ? 'signed in' : 'not signed in';
+    result += `• ${account.name}${marker}: ${account.email || 'no username'}, ${state}\n`;
+  }
+  return result;
+}
+
 // Tool definitions following official MCP patterns
 const tools: Tool[] = [
   {
     name: 'authenticate',
     description: 'Authenticate with LinkLibrary credentials',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        username: {
-          type: 'string',
-          description: 'Your LinkLibrary email or username',
-        },
-        password: {
-          type: 'string',
-          description: 'Your LinkLibrary password',
-        },
-      },
-      required: ['username', 'password'],
-    },
+    inputSchema: toInputSchema(toolParams.authenticate),
+    outputSchema: outputSchemas.authenticate,
+  },
+  {
+    name: 'list_accounts',
+    description: 'List the configured LinkLibrary accounts, which one is active and which are signed in',
+    inputSchema: toInputSchema(toolParams.list_accounts),
+    outputSchema: outputSchemas.list_accounts,
+  },
+  {
+    name: 'switch_account',
+    description: 'Sign in to a configured account and make it the one tool calls use',
+    inputSchema: toInputSchema(toolParams.switch_account),
+    outputSchema: outputSchemas.switch_account,
+  },
+  {
+    name: 'whoami',
+    description:
+      'Show which account tool calls run against, the user it is signed in as, how it signed in, ' +
+      'and when its token expires and is refreshed',
+    inputSchema: toInputSchema(toolParams.whoami),
+    outputSchema: outputSchemas.whoami,
+  },
+  {
+    name: 'logout',
+    description:
+      'Log out: end the token at LinkLibrary, remove it from the credential store and drop every cached response of the account',
+    inputSchema: toInputSchema(toolParams.logout),
+    outputSchema: outputSchemas.logout,
   },
   {
     name: 'get_links',
     description: 'Get links with optional filtering and pagination',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        limit: {
-          type: 'integer',
-          description: 'Number of links to return (default: 50, max: 100)',
-          default: 50,
-        },
-        skip: {
-          type: 'integer',
-          description: 'Number of links to skip for pagination',
-          default: 0,
-        },
-        collection_id: {
-          type: 'integer',
-          description: 'Filter by collection ID',
-        },
-        tag_ids: {
-          type: 'array',
-          items: { type: 'integer' },
-          description: 'Filter by tag IDs',
-        },
-        search: {
-          type: 'string',
-          description: 'Search query for title, summary, or notes',
-        },
-        is_favorite: {
-          type: 'boolean',
-          description: 'Filter by favorite status',
-        },
-        sort_by: {
-          type: 'string',
-          description: 'Sort field',
-          default: 'created_at',
-        },
-        sort_desc: {
-          type: 'boolean',
-          description: 'Sort in descending order',
-          default: true,
-        },
-      },
-    },
+    inputSchema: toInputSchema(toolParams.get_links),
+    outputSchema: outputSchemas.get_links,
+  },
+  {
+    name: 'get_link',
+    description: 'Get every detail of a single bookmark, with tag and collection names resolved',
+    inputSchema: toInputSchema(toolParams.get_link),
+    outputSchema: outputSchemas.get_link,
   },
   {
     name: 'create_link',
     description: 'Create a new bookmark with optional metadata',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        url: {
-          type: 'string',
-          description: 'The URL to bookmark',
-        },
-        title: {
-          type: 'string',
-          description: 'Title for the bookmark',
-        },
-        summary: {
-          type: 'string',
-          description: 'Summary/description',
-        },
-        notes: {
-          type: 'string',
-          description: 'Additional notes',
-        },
-        collection_id: {
-          type: 'integer',
-          description: 'Collection to add to',
-        },
-        tag_ids: {
-          type: 'array',
-          items: { type: 'integer' },
-          description: 'Tags to apply',
-        },
-        is_favorite: {
-          type: 'boolean',
-          description: 'Mark as favorite',
-          default: false,
-        },
-      },
-      required: ['url', 'title'],
-    },
+    inputSchema: toInputSchema(toolParams.create_link),
+    outputSchema: outputSchemas.create_link,
+  },
+  {
+    name: 'update_link',
+    description: 'Update fields of an existing bookmark and show what changed',
+    inputSchema: toInputSchema(toolParams.update_link),
+    outputSchema: outputSchemas.update_link,
+  },
+  {
+    name: 'delete_link',
+    description: 'Permanently delete one or more bookmarks, with an optional dry-run preview',
+    inputSchema: toInputSchema(toolParams.delete_link),
+    outputSchema: outputSchemas.delete_link,
+  },
+  {
+    name: 'archive_link',
+    description: 'Archive one or more bookmarks, with an optional dry-run preview',
+    inputSchema: toInputSchema(toolParams.archive_link),
+    outputSchema: outputSchemas.archive_link,
+  },
+  {
+    name: 'links_parse',
+    description: 'Extract URLs from free text, check which are already saved, and optionally bookmark the new ones',
+    inputSchema: toInputSchema(toolParams.links_parse),
+    outputSchema: outputSchemas.links_parse,
+  },
+  {
+    name: 'bulk_update_links',
+    description: 'Apply one operation (move, add_tags, remove_tags, set_favorite, clear_favorite) to many links selected by ID or filter',
+    inputSchema: toInputSchema(toolParams.bulk_update_links),
+    outputSchema: outputSchemas.bulk_update_links,
   },
   {
     name: 'get_collections',
     description: 'Retrieve user collections',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        include_default: {
-          type: 'boolean',
-          description: 'Include default collections',
-          default: true,
-        },
-      },
-    },
+    inputSchema: toInputSchema(toolParams.get_collections),
+    outputSchema: outputSchemas.get_collections,
+  },
+  {
+    name: 'create_collection',
+    description: 'Create a new collection',
+    inputSchema: toInputSchema(toolParams.create_collection),
+    outputSchema: outputSchemas.create_collection,
+  },
+  {
+    name: 'update_collection',
+    description: 'Rename, recolor or otherwise update an existing collection',
+    inputSchema: toInputSchema(toolParams.update_collection),
+    outputSchema: outputSchemas.update_collection,
+  },
+  {
+    name: 'delete_collection',
+    description: 'Delete a collection, optionally moving its links to another collection first. Default collections cannot be deleted.',
+    inputSchema: toInputSchema(toolParams.delete_collection),
+    outputSchema: outputSchemas.delete_collection,
   },
   {
     name: 'get_tags',
     description: 'Retrieve user tags',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        include_counts: {
-          type: 'boolean',
-          description: 'Include link counts',
-          default: true,
-        },
-      },
-    },
+    inputSchema: toInputSchema(toolParams.get_tags),
+    outputSchema: outputSchemas.get_tags,
+  },
+  {
+    name: 'create_tag',
+    description: 'Create a new tag',
+    inputSchema: toInputSchema(toolParams.create_tag),
+    outputSchema: outputSchemas.create_tag,
+  },
+  {
+    name: 'update_tag',
+    description: 'Rename or recolor an existing tag',
+    inputSchema: toInputSchema(toolParams.update_tag),
+    outputSchema: outputSchemas.update_tag,
+  },
+  {
+    name: 'delete_tag',
+    description: 'Delete a tag. Requires confirm when links still carry the tag.',
+    inputSchema: toInputSchema(toolParams.delete_tag),
+    outputSchema: outputSchemas.delete_tag,
+  },
+  {
+    name: 'merge_tags',
+    description: 'Merge one or more tags into a target tag, retagging every affected link and deleting the merged tags',
+    inputSchema: toInputSchema(toolParams.merge_tags),
+    outputSchema: outputSchemas.merge_tags,
   },
   {
     name: 'search_advanced',
     description: 'Perform advanced search with multiple filters',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        query: {
-          type: 'string',
-          description: 'Search query',
-        },
-        operator: {
-          type: 'string',
-          description: 'Search operator - "AND" or "OR"',
-          default: 'OR',
-        },
-        collection_ids: {
-          type: 'array',
-          items: { type: 'integer' },
-          description: 'Filter by collections',
-        },
-        tag_ids: {
-          type: 'array',
-          items: { type: 'integer' },
-          description: 'Filter by tags',
-        },
-        limit: {
-          type: 'integer',
-          description: 'Number of results',
-          default: 50,
-        },
-      },
-      required: ['query'],
-    },
+    inputSchema: toInputSchema(toolParams.search_advanced),
+    outputSchema: outputSchemas.search_advanced,
   },
   {
     name: 'get_user_stats',
-    description: 'Get user statistics and insights (currently not available)',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        period: {
-          type: 'string',
-          description: 'Time period - "day", "week", "month", "year"',
-          default: 'month',
-        },
-      },
-    },
+    description: 'Get user statistics: totals, favorites, links added this period, and most used collections and tags',
+    inputSchema: toInputSchema(toolParams.get_user_stats),
+    outputSchema: outputSchemas.get_user_stats,
   },
 ];
 
 // Tool definitions
-server.setRequestHandler(ListToolsRequestSchema, async () => {
+async function handleListTools() {
   return {
     tools,
   };
-});
+}
 
 // Tool execution handler
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
+async function handleCallTool(request: CallToolRequest) {
+  const { name } = request.params;
   const requestId = generateRequestId();
   const stopTimer = logger.startTimer(`Tool: ${name}`, { 
     operation: 'tool_execution',
     tool_name: name,
   }, requestId);
 
+  let emoji = true;
+
   try {
-    let result: string;
+    let result: ToolResult;
+
+    // Coerce and range-check the arguments against the tool's parameters (unknown tools fail below)
+    const args = toolParams[name]
+      ? parseArguments(toolParams[name], request.params.arguments)
+      : request.params.arguments;
+
+    // Every tool takes an output_style; it only affects the text, never the API call
+    const outputStyle = args?.output_style;
+    if (args) {
+      delete args.output_style;
+    }
+    if (outputStyle !== undefined && typeof outputStyle !== 'string') {
+      throw new ValidationError('output_style must be a string');
+    }
+    const template = getOutputTemplate(outputStyle || outputConfig.default_style);
+    emoji = template.emoji;
+
+    // Every tool takes an account; it runs just this call against that profile
+    const account = args?.account;
+    if (args) {
+      delete args.account;
+    }
+    if (account !== undefined) {
+      if (typeof account !== 'string') {
+        throw new ValidationError('account must be a string');
+      }
+      sessionManager.useAccount(account.trim().toLowerCase());
+    }
+
+    // Let every tool take collection and tag names wherever it takes IDs
+    if (args) {
+      await resolveNamedReferences(args, createNameLookup(FUZZY_NAME_TOOLS.includes(name)));
+    }
 
     switch (name) {
       case 'authenticate': {
         const { username, password } = args as { username: string; password: string };
         
-        const user = await authService.authenticate(username, password);
-        result = `✅ Authentication successful! Welcome, ${user.full_name || user.email}`;
+        const user = await currentAccount().auth.authenticate(username, password);
+        result = {
+          text: `✅ Authentication successful! Welcome, ${user.full_name || user.email}`,
+          data: { user: { id: user.id, email: user.email, full_name: user.full_name ?? null } },
+        };
+        break;
+      }
+
+      case 'list_accounts': {
+        const accounts = currentSession().listAccounts().map(summarizeAccount);
+        result = { text: formatAccounts(accounts), data: { accounts } };
+        break;
+      }
+
+      case 'switch_account': {
+        if (account === undefined) {
+          throw new ValidationError('account is required');
+        }
+
+        // Sign in first, so an account whose credentials fail never becomes the active one
+        await ensureAuthenticated();
+        const user = currentSession().switchAccount(currentAccount().name).auth.getCurrentUserSync();
+        const summary = summarizeCurrentAccount();
+        result = {
+          text: `🔀 Switched to account "${summary.name}" (signed in as ${user?.email})`,
+          data: {
+            account: summary,
+            user: user && { id: user.id, email: user.email, full_name: user.full_name ?? null },
+          },
+        };
+        break;
+      }
+
+      case 'whoami': {
+        let problem: string | null = null;
+        try {
+          await ensureAuthenticated();
+        } catch (error) {
+          problem = error instanceof Error ? error.message : 'Unknown error';
+        }
+
+        const summary = summarizeCurrentAccount();
+        const user = currentAccount().auth.getCurrentUserSync();
+        const status = currentAccount().auth.getAuthStatus();
+        result = {
+          text: formatWhoami(summary, status, problem),
+          data: {
+            account: summary,
+            user: user ? { id: user.id, email: user.email, full_name: user.full_name ?? null } : null,
+            method: status.method,
+            token_expires_at: status.tokenExpiresAt?.toISOString() ?? null,
+            refresh_at: status.refreshAt?.toISOString() ?? null,
+            problem,
+          },
+        };
+        break;
+      }
+
+      case 'logout': {
+        const target = currentAccount();
+        const outcome = await target.logout();
+        const savedToken = outcome.removed_saved_token ? ', removed the saved token' : '';
+        result = {
+          text:
+            `👋 Logged out ${outcome.email || `of account "${target.name}"`}` +
+            `${savedToken} and cleared ${outcome.cleared_cache_entries} cached entries`,
+          data: { account: target.name, ...outcome },
+        };
         break;
       }
 
       case 'get_links': {
         await ensureAuthenticated();
-        const params = args as GetLinksParams;
+        const params = (args || {}) as GetLinksParams;
         
         try {
+          const filters: Record<string, string> = {};
+          if (params.collection_id) filters.collection_id = params.collection_id.toString();
+          if (params.tag_ids) filters.tag_ids = params.tag_ids.join(',');
+          if (params.search) filters.search = params.search;
+          if (params.is_favorite !== undefined) filters.is_favorite = params.is_favorite.toString();
+          if (params.sort_by) filters.sort_by = params.sort_by;
+          if (params.sort_desc !== undefined) filters.sort_desc = params.sort_desc.toString();
+
+          if (params.all) {
+            const data = await fetchAllPages(
+              (skip, limit) => fetchLinksPage(filters, skip, limit),
+              { label: 'links' },
+            );
+            const text = formatLinks(data.items, template)
+              + truncationNote(data, 'links', 'Narrow the filters to see the rest.');
+            result = {
+              text,
+              data: {
+                links: data.items,
+                pagination: {
+                  skip: 0,
+                  limit: null,
+                  returned: data.items.length,
+                  total: data.total ?? null,
+                  has_more: data.truncated,
+                  truncated: data.truncated,
+                },
+              },
+            };
+            break;
+          }
+
           const queryParams = new URLSearchParams();
           if (params.limit) queryParams.append('limit', params.limit.toString());
           if (params.skip) queryParams.append('skip', params.skip.toString());
-          if (params.collection_id) queryParams.append('collection_id', params.collection_id.toString());
-          if (params.tag_ids) queryParams.append('tag_ids', params.tag_ids.join(','));
-          if (params.search) queryParams.append('search', params.search);
-          if (params.is_favorite !== undefined) queryParams.append('is_favorite', params.is_favorite.toString());
-          if (params.sort_by) queryParams.append('sort_by', params.sort_by);
-          if (params.sort_desc !== undefined) queryParams.append('sort_desc', params.sort_desc.toString());
-
-          const data = await apiClient.get<LinkLibrarySearchResult>(`/links?${queryParams.toString()}`);
+          for (const [key, value] of Object.entries(filters)) {
+            queryParams.append(key, value);
+          }
+
+          const data = await currentAccount().api.get<LinkLibrarySearchResult>(`/links?${queryParams.toString()}`);
           
           if (!data.items || !Array.isArray(data.items)) {
             throw new Error(`Invalid links response format: ${JSON.stringify(data)}`);
           }
           
-          result = formatLinks(data.items);
+          result = {
+            text: formatLinks(data.items, template),
+            data: { links: data.items, pagination: describePage(data, params.skip, params.limit) },
+          };
         } catch (error) {
           throw new Error(`Failed to get links: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
         break;
       }
 
+      case 'get_link': {
+        await ensureAuthenticated();
+        const { link_id: linkId } = args as unknown as GetLinkParams;
+
+        if (!linkId) {
+          throw new ValidationError('link_id is required');
+        }
+
+        const [link, { items: collections }, { items: tags }] = await Promise.all([
+          currentAccount().api.get<LinkLibraryLink>(`/links/${linkId}`),
+          fetchAllCollections(),
+          fetchAllTags(),
+        ]);
+
+        const collection = collections.find((c) => c.id === link.collection_id);
+        result = {
+          text: formatLinkDetail(link, collections, tags, template),
+          data: {
+            link,
+            collection: collection ? { id: collection.id, name: collection.name } : null,
+            tags: tags
+              .filter((tag) => (link.tag_ids || []).includes(tag.id))
+              .map((tag) => ({ id: tag.id, name: tag.name })),
+          },
+        };
+        break;
+      }
+
       case 'create_link': {
         await ensureAuthenticated();
-        const params = args as unknown as CreateLinkParams;
-        
-        const data = await apiClient.post<LinkLibraryLink>('/links', params);
-        result = `✅ Bookmark created successfully!\n\n📌 ${data.title}\n🔗 ${data.url}\n📝 ${data.summary || 'No summary'}`;
-        
-        // Invalidate cache for links
-        globalCache.delete('api:GET:/links');
+        result = await createLink(args as unknown as CreateLinkParams);
+        break;
+      }
+
+      case 'update_link': {
+        await ensureAuthenticated();
+        const { link_id: linkId, ...fields } = args as unknown as UpdateLinkParams;
+
+        if (!linkId) {
+          throw new ValidationError('link_id is required');
+        }
+
+        const updates = pickDefined(fields, UPDATABLE_LINK_FIELDS);
+
+        if (Object.keys(updates).length === 0) {
+          throw new ValidationError('At least one field to update is required');
+        }
+
+        // Read the current state fresh so the diff isn't built from a stale cache entry
+        currentAccount().cache.delete(CacheUtils.generateKey('api', 'GET', `/links/${linkId}`, undefined));
+        const before = await currentAccount().api.get<LinkLibraryLink>(`/links/${linkId}`);
+        const after = await currentAccount().api.patch<LinkLibraryLink>(`/links/${linkId}`, updates);
+
+        invalidateLinkCaches();
+
+        const changes = diffFields(before, after, UPDATABLE_LINK_FIELDS);
+        result = {
+          text: `✅ Bookmark updated successfully!\n\n📌 ${after.title}\n🔗 ${after.url}\n\n${formatChanges(changes)}`,
+          data: { link: after, changes },
+        };
+        break;
+      }
+
+      case 'delete_link': {
+        await ensureAuthenticated();
+        result = await removeLinks('delete', args as LinkSelectionParams);
+        break;
+      }
+
+      case 'archive_link': {
+        await ensureAuthenticated();
+        result = await removeLinks('archive', args as LinkSelectionParams);
+        break;
+      }
+
+      case 'links_parse': {
+        await ensureAuthenticated();
+        result = await parseLinks(args as unknown as LinksParseParams);
+        break;
+      }
+
+      case 'bulk_update_links': {
+        await ensureAuthenticated();
+        result = await bulkUpdateLinks(args as unknown as BulkUpdateLinksParams);
         break;
       }
 
       case 'get_collections': {
         await ensureAuthenticated();
-        const params = args as GetCollectionsParams;
+        const params = (args || {}) as GetCollectionsParams;
         
-        // Use the main collections endpoint which returns paginated response
-        const response = await apiClient.get<PaginatedCollectionResponse>('/collections');
-        if (!response.items || !Array.isArray(response.items)) {
-          throw new Error(`Invalid response format: ${JSON.stringify(response)}`);
+        const allCollections = await fetchAllCollections();
+        const collections = params.include_default === false
+          ? allCollections.items.filter((collection) => !collection.is_default)
+          : allCollections.items;
+        result = {
+          text: formatCollections(collections, template) + truncationNote(allCollections, 'collections'),
+          data: { collections, total: collections.length, truncated: allCollections.truncated },
+        };
+        break;
+      }
+
+      case 'create_collection': {
+        await ensureAuthenticated();
+        const params = args as unknown as CreateCollectionParams;
+
+        if (!params.name) {
+          throw new ValidationError('name is required');
+        }
+
+        const collection = await currentAccount().api.post<LinkLibraryCollection>(
+          '/collections',
+          pickDefined(params, UPDATABLE_COLLECTION_FIELDS),
+        );
+        invalidateCollectionCaches();
+
+        let text = `✅ Collection created successfully!\n\n📁 ${collection.name} (#${collection.id})`;
+        if (collection.description) {
+          text += `\n📝 ${collection.description}`;
         }
-        result = formatCollections(response.items);
+        result = { text, data: { collection } };
+        break;
+      }
+
+      case 'update_collection': {
+        await ensureAuthenticated();
+        const { collection_id: collectionId, ...fields } = args as unknown as UpdateCollectionParams;
+
+        if (!collectionId) {
+          throw new ValidationError('collection_id or collection is required');
+        }
+
+        const updates = pickDefined(fields, UPDATABLE_COLLECTION_FIELDS);
+        if (Object.keys(updates).length === 0) {
+          throw new ValidationError('At least one field to update is required');
+        }
+
+        invalidateCollectionCaches();
+        const before = await currentAccount().api.get<LinkLibraryCollection>(`/collections/${collectionId}`);
+        const after = await currentAccount().api.patch<LinkLibraryCollection>(`/collections/${collectionId}`, updates);
+        invalidateCollectionCaches();
+
+        const changes = diffFields(before, after, UPDATABLE_COLLECTION_FIELDS);
+        result = {
+          text: `✅ Collection updated successfully!\n\n📁 ${after.name} (#${after.id})\n\n${formatChanges(changes)}`,
+          data: { collection: after, changes },
+        };
+        break;
+      }
+
+      case 'delete_collection': {
+        await ensureAuthenticated();
+        result = await deleteCollection(args as unknown as DeleteCollectionParams);
         break;
       }
 
       case 'get_tags': {
         await ensureAuthenticated();
-        const params = args as GetTagsParams;
         
-        // Use the main tags endpoint which returns paginated response
-        const response = await apiClient.get<PaginatedTagResponse>('/tags');
-        if (!response.items || !Array.isArray(response.items)) {
-          throw new Error(`Invalid response format: ${JSON.stringify(response)}`);
+        const tags = await fetchAllTags();
+        result = {
+          text: formatTags(tags.items, template) + truncationNote(tags, 'tags'),
+          data: { tags: tags.items, total: tags.items.length, truncated: tags.truncated },
+        };
+        break;
+      }
+
+      case 'create_tag': {
+        await ensureAuthenticated();
+        const params = args as unknown as CreateTagParams;
+
+        if (!params.name) {
+          throw new ValidationError('name is required');
+        }
+
+        const tag = await currentAccount().api.post<LinkLibraryTag>('/tags', pickDefined(params, UPDATABLE_TAG_FIELDS));
+        invalidateTagCaches();
+
+        result = { text: `✅ Tag created successfully!\n\n🏷️ ${tag.name} (#${tag.id})`, data: { tag } };
+        break;
+      }
+
+      case 'update_tag': {
+        await ensureAuthenticated();
+        const { tag_id: tagId, ...fields } = args as unknown as UpdateTagParams;
+
+        if (!tagId) {
+          throw new ValidationError('tag_id or tag is required');
+        }
+
+        const updates = pickDefined(fields, UPDATABLE_TAG_FIELDS);
+        if (Object.keys(updates).length === 0) {
+          throw new ValidationError('At least one field to update is required');
         }
-        result = formatTags(response.items);
+
+        invalidateTagCaches();
+        const before = await currentAccount().api.get<LinkLibraryTag>(`/tags/${tagId}`);
+        const after = await currentAccount().api.patch<LinkLibraryTag>(`/tags/${tagId}`, updates);
+        invalidateTagCaches();
+
+        const changes = diffFields(before, after, UPDATABLE_TAG_FIELDS);
+        result = {
+          text: `✅ Tag updated successfully!\n\n🏷️ ${after.name} (#${after.id})\n\n${formatChanges(changes)}`,
+          data: { tag: after, changes },
+        };
+        break;
+      }
+
+      case 'delete_tag': {
+        await ensureAuthenticated();
+        result = await deleteTag(args as unknown as DeleteTagParams);
+        break;
+      }
+
+      case 'merge_tags': {
+        await ensureAuthenticated();
+        result = await mergeTags(args as unknown as MergeTagsParams);
         break;
       }
 
@@ -442,18 +1853,23 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const params = args as unknown as SearchAdvancedParams;
         
         try {
-          const data = await apiClient.post<LinkLibrarySearchResult>('/search/link', params);
+          const data = await currentAccount().api.post<LinkLibrarySearchResult>('/search/link', params);
           
           if (!data.items || !Array.isArray(data.items)) {
             throw new Error(`Invalid search response format: ${JSON.stringify(data)}`);
           }
           
-          if (data.items.length === 0) {
-            result = `No results found for query: '${params.query}'`;
-          } else {
-            result = `Found ${data.total} results for '${params.query}':\n\n`;
-            result += formatLinks(data.items);
-          }
+          const text = data.items.length === 0
+            ? `No results found for query: '${params.query}'`
+            : `Found ${data.total} results for '${params.query}':\n\n${formatLinks(data.items, template)}`;
+          result = {
+            text,
+            data: {
+              query: params.query,
+              links: data.items,
+              pagination: describePage(data, params.skip, params.limit),
+            },
+          };
         } catch (error) {
           throw new Error(`Search failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
@@ -462,7 +1878,14 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
       case 'get_user_stats': {
         await ensureAuthenticated();
-        result = '⚠️ User stats functionality is not available in the current API version.';
+        const { period = 'month' } = (args || {}) as GetUserStatsParams;
+
+        const { stats, source, truncated } = await getUserStats(period);
+        let text = formatUserStats(stats, period);
+        if (truncated) {
+          text += '\n⚠️ Some listings stopped at the PAGINATION_MAX_ITEMS cap, so these counts are lower than the real ones.';
+        }
+        result = { text, data: { period, source, stats, truncated } };
         break;
       }
 
@@ -476,9 +1899,10 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       content: [
         {
           type: 'text',
-          text: result,
+          text: emoji ? result.text : stripEmoji(result.text),
         },
       ],
+      structuredContent: result.data,
     };
   } catch (error) {
     stopTimer();
@@ -489,16 +1913,476 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       request_id: requestId,
     }, error as Error);
 
+    const message = `❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`;
+
     return {
       content: [
         {
           type: 'text',
-          text: `❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          text: emoji ? message : stripEmoji(message),
         },
       ],
+      isError: true,
     };
   }
-});
+}
+
+// Resource URIs: linklibrary://links/{id}, linklibrary://collections/{id} and linklibrary://tags/{name}
+const resourceTemplates: ResourceTemplate[] = [
+  {
+    uriTemplate: 'linklibrary://links/{id}',
+    name: 'link',
+    title: 'Bookmark',
+    description: 'A single bookmark with its collection and tags. Append ?format=json for JSON instead of markdown.',
+    mimeType: 'text/markdown',
+  },
+  {
+    uriTemplate: 'linklibrary://collections/{id}',
+    name: 'collection',
+    title: 'Collection',
+    description: 'A collection and every bookmark in it. Append ?format=json for JSON instead of markdown.',
+    mimeType: 'text/markdown',
+  },
+  {
+    uriTemplate: 'linklibrary://tags/{name}',
+    name: 'tag',
+    title: 'Tag',
+    description: 'A tag and every bookmark carrying it. Append ?format=json for JSON instead of markdown.',
+    mimeType: 'text/markdown',
+  },
+];
+
+// JSON-RPC error code the MCP spec uses for unknown resources
+const RESOURCE_NOT_FOUND = -32002;
+
+// Order in which resources/list walks the library, one API page per call
+const RESOURCE_LIST_KINDS: ResourceKind[] = ['collections', 'tags', 'links'];
+
+// Helper function to decode a resources/list cursor ("<kind>:<skip>")
+function parseResourceCursor(cursor?: string): { kind: ResourceKind; skip: number } {
+  if (!cursor) {
+    return { kind: RESOURCE_LIST_KINDS[0], skip: 0 };
+  }
+
+  const [kind, skip] = cursor.split(':');
+  if (!RESOURCE_LIST_KINDS.includes(kind as ResourceKind) || !/^\d+$/.test(skip || '')) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid cursor: ${cursor}`);
+  }
+  return { kind: kind as ResourceKind, skip: parseInt(skip) };
+}
+
+// Helper function to list one page of resources, moving on to the next kind when a kind runs out
+async function listResources(cursor?: string): Promise<{ resources: Resource[]; nextCursor?: string }> {
+  const { kind, skip } = parseResourceCursor(cursor);
+  const limit = getPaginationConfig().pageSize;
+  let resources: Resource[];
+  let page: PageResponse<unknown>;
+
+  if (kind === 'collections') {
+    const response = await currentAccount().api.get<PaginatedCollectionResponse>(`/collections?skip=${skip}&limit=${limit}`);
+    page = response;
+    resources = (response.items || []).map((collection) => ({
+      uri: resourceUri('collections', collection.id),
+      name: collection.name,
+      title: `Collection: ${collection.name}`,
+      description: `${collection.link_count} links${collection.description ? ` — ${collection.description}` : ''}`,
+      mimeType: 'text/markdown',
+    }));
+  } else if (kind === 'tags') {
+    const response = await currentAccount().api.get<PaginatedTagResponse>(`/tags?skip=${skip}&limit=${limit}`);
+    page = response;
+    resources = (response.items || []).map((tag) => ({
+      uri: resourceUri('tags', tag.name),
+      name: tag.name,
+      title: `Tag: ${tag.name}`,
+      description: `${tag.link_count} links`,
+      mimeType: 'text/markdown',
+    }));
+  } else {
+    const response = await fetchLinksPage({}, skip, limit);
+    page = response;
+    resources = (response.items || []).map((link) => ({
+      uri: resourceUri('links', link.id),
+      name: link.title,
+      description: link.url,
+      mimeType: 'text/markdown',
+    }));
+  }
+
+  const fetched = skip + resources.length;
+  if (!isLastPage({ ...page, items: resources }, limit, fetched)) {
+    return { resources, nextCursor: `${kind}:${fetched}` };
+  }
+
+  const nextKind = RESOURCE_LIST_KINDS[RESOURCE_LIST_KINDS.indexOf(kind) + 1];
+  return { resources, nextCursor: nextKind ? `${nextKind}:0` : undefined };
+}
+
+// Helper function to format a list of links as markdown bullets
+function formatLinksMarkdown(links: LinkLibraryLink[]): string {
+  if (links.length === 0) {
+    return '_No links._\n';
+  }
+
+  const lines = links.map((link) => {
+    const { summary_short: summary } = linkFields(link);
+    return `- [${link.title}](${link.url})${summary ? ` — ${summary}` : ''}`;
+  });
+  return `${lines.join('\n')}\n`;
+}
+
+// Helper function to format a single link resource as markdown
+function formatLinkMarkdown(
+  link: LinkLibraryLink,
+  collections: LinkLibraryCollection[],
+  tags: LinkLibraryTag[],
+): string {
+  const fields = linkDetailFields(link, collections, tags);
+
+  let result = `# ${link.title}\n\n<${link.url}>\n\n`;
+  result += `- **ID:** ${link.id}\n`;
+  result += `- **Collection:** ${fields.collection || 'None'}\n`;
+  result += `- **Tags:** ${fields.tags || 'None'}\n`;
+  result += `- **Favorite:** ${link.is_favorite ? 'Yes' : 'No'}\n`;
+  result += `- **Archived:** ${link.is_archived ? 'Yes' : 'No'}\n`;
+  result += `- **Saved:** ${fields.created_at}\n`;
+  if (link.summary) {
+    result += `\n## Summary\n\n${link.summary}\n`;
+  }
+  if (link.notes) {
+    result += `\n## Notes\n\n${link.notes}\n`;
+  }
+
+  return result;
+}
+
+// Helper function to load the data behind a resource URI
+async function loadResource(kind: string, key: string): Promise<{ markdown: string; data: Record<string, unknown> }> {
+  switch (kind) {
+    case 'links': {
+      const [link, { items: collections }, { items: tags }] = await Promise.all([
+        currentAccount().api.get<LinkLibraryLink>(`/links/${encodeURIComponent(key)}`),
+        fetchAllCollections(),
+        fetchAllTags(),
+      ]);
+      const collection = collections.find((c) => c.id === link.collection_id);
+      return {
+        markdown: formatLinkMarkdown(link, collections, tags),
+        data: {
+          link,
+          collection: collection ? { id: collection.id, name: collection.name } : null,
+          tags: tags
+            .filter((tag) => (link.tag_ids || []).includes(tag.id))
+            .map((tag) => ({ id: tag.id, name: tag.name })),
+        },
+      };
+    }
+
+    case 'collections': {
+      if (!/^\d+$/.test(key)) {
+        throw new ValidationError(`Collection resources are addressed by numeric ID, got "${key}"`);
+      }
+      const collection = await currentAccount().api.get<LinkLibraryCollection>(`/collections/${key}`);
+      const links = await fetchAllLinks({ collection_id: key });
+      let markdown = `# ${collection.name}\n\n`;
+      if (collection.description) {
+        markdown += `${collection.description}\n\n`;
+      }
+      markdown += `${links.items.length} links\n${truncationNote(links, 'links')}\n${formatLinksMarkdown(links.items)}`;
+      return { markdown, data: { collection, links: links.items, truncated: links.truncated } };
+    }
+
+    case 'tags': {
+      const tag = requireNamedMatch((await fetchAllTags()).items, key, 'Tag');
+      const links = await fetchAllLinks({ tag_ids: tag.id.toString() });
+      const markdown = `# Tag: ${tag.name}\n\n${links.items.length} links\n${truncationNote(links, 'links')}\n${formatLinksMarkdown(links.items)}`;
+      return { markdown, data: { tag, links: links.items, truncated: links.truncated } };
+    }
+
+    default:
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource type "${kind}". Expected links, collections or tags.`);
+  }
+}
+
+// Helper function to read a resource as markdown (default) or JSON (?format=json)
+async function readResource(uri: string): Promise<ReadResourceResult['contents']> {
+  let parsed: URL;
+  try {
+    parsed = new URL(uri);
+  } catch {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid resource URI: ${uri}`);
+  }
+  if (parsed.protocol !== 'linklibrary:') {
+    throw new McpError(ErrorCode.InvalidParams, `Unsupported resource URI: ${uri}`);
+  }
+
+  const key = decodeURIComponent(parsed.pathname.replace(/^\//, ''));
+  const format = parsed.searchParams.get('format') || 'markdown';
+  if (!key) {
+    throw new McpError(ErrorCode.InvalidParams, `Resource URI is missing an ID or name: ${uri}`);
+  }
+  if (format !== 'markdown' && format !== 'json') {
+    throw new McpError(ErrorCode.InvalidParams, 'format must be markdown or json');
+  }
+
+  try {
+    const { markdown, data } = await loadResource(parsed.hostname, key);
+    return [
+      format === 'json'
+        ? { uri, mimeType: 'application/json', text: JSON.stringify(data, null, 2) }
+        : { uri, mimeType: 'text/markdown', text: markdown },
+    ];
+  } catch (error) {
+    if (error instanceof ValidationError || (error instanceof LinkLibraryError && error.statusCode === 404)) {
+      throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}. ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+// Resource listing handler
+async function handleListResources(request: ListResourcesRequest) {
+  await ensureAuthenticated();
+  return listResources(request.params?.cursor);
+}
+
+// Resource template listing handler
+async function handleListResourceTemplates() {
+  return {
+    resourceTemplates,
+  };
+}
+
+// Resource read handler
+async function handleReadResource(request: ReadResourceRequest) {
+  await ensureAuthenticated();
+  return {
+    contents: await readResource(request.params.uri),
+  };
+}
+
+// Resource subscription handler
+async function handleSubscribe(request: SubscribeRequest) {
+  await ensureAuthenticated();
+  if (!resourceKey(request.params.uri)) {
+    throw new McpError(ErrorCode.InvalidParams, `Not a linklibrary:// resource URI: ${request.params.uri}`);
+  }
+
+  await currentSession().watcher.subscribe(request.params.uri);
+  return {};
+}
+
+// Resource unsubscription handler
+async function handleUnsubscribe(request: UnsubscribeRequest) {
+  currentSession().watcher.unsubscribe(request.params.uri);
+  return {};
+}
+
+// Helper function to load the snapshot resource change detection compares against,
+// straight from the API without touching what other requests have cached
+async function loadLibrarySnapshot(): Promise<LibrarySnapshot | null> {
+  if (!currentAccount().auth.isAuthenticated()) {
+    return null;
+  }
+
+  const [links, collections, tags] = await Promise.all([
+    fetchAllLinks({}, true),
+    fetchAllCollections(true),
+    fetchAllTags(true),
+  ]);
+  return createSnapshot(links.items, collections.items, tags.items);
+}
+
+// Helper function to drop the cached responses a change made outside this server left stale
+function invalidateChangedCaches(diff: SnapshotDiff): void {
+  const cache = currentAccount().cache;
+  const changed = Array.from(diff.updated, (key) => {
+    const [kind, ...rest] = key.split('/');
+    return { kind, id: rest.join('/') };
+  });
+
+  for (const { kind, id } of changed) {
+    if (kind === 'links' || kind === 'collections') {
+      cache.delete(CacheUtils.generateKey('api', 'GET', `/${kind}/${id}`, undefined));
+    }
+  }
+  if (changed.some((entry) => entry.kind === 'links')) {
+    cache.invalidatePattern('api:GET:/links?');
+    cache.invalidatePattern('/search');
+  }
+  if (changed.some((entry) => entry.kind === 'collections')) {
+    cache.invalidatePattern('api:GET:/collections?');
+  }
+  if (changed.some((entry) => entry.kind === 'tags')) {
+    invalidateTagCaches();
+  }
+  cache.invalidatePattern('stats:');
+}
+
+// Helper function to tell the model when the library data in a prompt stopped at the cap
+function noteTruncation(prompt: GetPromptResult, listings: Array<PaginatedResult<unknown>>): GetPromptResult {
+  if (!listings.some((listing) => listing.truncated)) {
+    return prompt;
+  }
+  const note = '\n\nNote: some of this library data stopped at the PAGINATION_MAX_ITEMS cap, so it is incomplete.';
+  return {
+    ...prompt,
+    messages: prompt.messages.map((message) => (message.content.type === 'text'
+      ? { ...message, content: { ...message.content, text: message.content.text + note } }
+      : message)),
+  };
+}
+
+// Helper function to build a prompt, embedding the library data it needs
+async function getPrompt(name: string, args: Record<string, string>): Promise<GetPromptResult> {
+  const [allCollections, allTags] = await Promise.all([fetchAllCollections(), fetchAllTags()]);
+  const { items: collections } = allCollections;
+  const { items: tags } = allTags;
+  const collection = args.collection ? resolveCollection(collections, args.collection) : undefined;
+  const filters: Record<string, string> = collection ? { collection_id: collection.id.toString() } : {};
+  const withLinks = async (linkFilters: Record<string, string>, build: (links: LinkLibraryLink[]) => GetPromptResult) => {
+    const links = await fetchAllLinks(linkFilters);
+    return noteTruncation(build(links.items), [allCollections, allTags, links]);
+  };
+
+  switch (name) {
+    case 'triage_untagged': {
+      const limit = parsePromptCount(args.limit, 'limit', DEFAULT_TRIAGE_LIMIT);
+      return withLinks(filters, (links) => triageUntaggedPrompt({ links, collections, tags }, limit, collection));
+    }
+
+    case 'collection_brief': {
+      if (!collection) {
+        throw new ValidationError('collection is required');
+      }
+      return withLinks(filters, (links) => collectionBriefPrompt({ links, collections, tags }, collection, args.focus));
+    }
+
+    case 'suggest_tag_taxonomy': {
+      const sampleSize = parsePromptCount(args.sample_size, 'sample_size', DEFAULT_TAXONOMY_SAMPLE);
+      return withLinks({}, (links) => tagTaxonomyPrompt({ links, collections, tags }, sampleSize));
+    }
+
+    case 'weekly_recap': {
+      const range = parseDateRange(args.start_date, args.end_date);
+      const tag = args.tag ? resolveTag(tags, args.tag) : undefined;
+      if (tag) {
+        filters.tag_ids = tag.id.toString();
+      }
+      return withLinks(filters, (links) => weeklyRecapPrompt({ links, collections, tags }, range, { collection, tag }));
+    }
+
+    default:
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+}
+
+// Prompt listing handler
+async function handleListPrompts() {
+  return {
+    prompts: PROMPTS,
+  };
+}
+
+// Prompt handler
+async function handleGetPrompt(request: GetPromptRequest) {
+  const { name, arguments: args = {} } = request.params;
+  if (!PROMPTS.some((prompt) => prompt.name === name)) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+
+  await ensureAuthenticated();
+  try {
+    return await getPrompt(name, args);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      throw new McpError(ErrorCode.InvalidParams, error.message);
+    }
+    throw error;
+  }
+}
+
+// Create an MCP server for one session, with every handler registered to run
+// in that session's context
+export function createServer(context: SessionContext): Server {
+  const server = new Server(
+    {
+      name: 'linklibrary-mcp',
+      version: '1.0.0',
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: {
+          subscribe: true,
+          listChanged: true,
+        },
+        prompts: {},
+      },
+    }
+  );
+
+  const inSession = <A extends unknown[], R>(handler: (...args: A) => Promise<R>) =>
+    (...args: A) => sessionManager.run(context, () => handler(...args));
+
+  server.setRequestHandler(ListToolsRequestSchema, inSession(handleListTools));
+  server.setRequestHandler(CallToolRequestSchema, inSession(handleCallTool));
+  server.setRequestHandler(ListResourcesRequestSchema, inSession(handleListResources));
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, inSession(handleListResourceTemplates));
+  server.setRequestHandler(ReadResourceRequestSchema, inSession(handleReadResource));
+  server.setRequestHandler(SubscribeRequestSchema, inSession(handleSubscribe));
+  server.setRequestHandler(UnsubscribeRequestSchema, inSession(handleUnsubscribe));
+  server.setRequestHandler(ListPromptsRequestSchema, inSession(handleListPrompts));
+  server.setRequestHandler(GetPromptRequestSchema, inSession(handleGetPrompt));
+
+  // Detect resource changes: writes made in this session are reported right away,
+  // external changes by the background poll (RESOURCE_POLL_INTERVAL_MS), which
+  // only runs while the session has subscriptions and only drops stale cache entries
+  context.watcher.configure(
+    () => sessionManager.run(context, loadLibrarySnapshot),
+    {
+      resourceUpdated: (uri) => server.sendResourceUpdated({ uri }),
+      resourceListChanged: () => server.sendResourceListChanged(),
+    },
+    (diff) => sessionManager.run(context, () => invalidateChangedCaches(diff)),
+  );
+  context.watcher.start(getResourcePollInterval());
+
+  // Closing the connection ends the session, and ending the session closes the connection
+  context.onClose(() => server.close());
+  server.onclose = () => {
+    void sessionManager.end(context.id);
+  };
+
+  return server;
+}
+
+// Helper function to serve MCP over HTTP
+async function startHttpTransport(): Promise<HttpTransport> {
+  const { host, port, path, auth_token, cors_origins } = getTransportConfig();
+  if (!auth_token && !['127.0.0.1', 'localhost', '::1'].includes(host)) {
+    logger.warn('HTTP transport is listening beyond localhost without MCP_HTTP_TOKEN; anyone who can reach it can use this account', {
+      operation: 'http_transport_unprotected',
+      host,
+    });
+  }
+
+  const transport = new HttpTransport({
+    host,
+    port,
+    path,
+    authToken: auth_token,
+    corsOrigins: cors_origins,
+    createServer: () => createServer(sessionManager.create()),
+    // /healthz belongs to no MCP session, so it checks the API as the default session's active account
+    healthCheck: () => sessionManager.getDefault().api.healthCheck(),
+  });
+  await transport.start();
+  return transport;
+}
+
+// HTTP transport, when running with --transport http
+let httpTransport: HttpTransport | null = null;
 
 // Start the server
 async function main() {
@@ -506,6 +2390,12 @@ async function main() {
     // Validate configuration and environment
     validateConfig();
     validateEnvironment();
+
+    // Load user output templates and make sure the default style exists
+    if (outputConfig.templates_file) {
+      loadTemplatesFile(outputConfig.templates_file);
+    }
+    getOutputTemplate(outputConfig.default_style);
     
     // Log startup information
     logger.info('LinkLibrary MCP Server starting', {
@@ -513,14 +2403,15 @@ async function main() {
       config: getConfigSummary(),
     });
 
-    // Setup token refresh if authenticated
-    if (authService.isAuthenticated()) {
-      authService.setupTokenRefresh();
+    // Start the server. Over stdio, sign in right away so problems with the
+    // credentials show up at startup; HTTP sessions sign in on first use.
+    if (getTransportConfig().type === 'http') {
+      httpTransport = await startHttpTransport();
+      sessionManager.start(getSessionIdleTimeout());
+    } else {
+      await createServer(sessionManager.getDefault()).connect(new StdioServerTransport());
+      await sessionManager.getDefault().bootstrapAuth();
     }
-
-    // Start the server
-    const transport = new StdioServerTransport();
-    await server.connect(transport);
     
     logger.info('LinkLibrary MCP Server started successfully', {
       operation: 'server_started',
@@ -539,57 +2430,64 @@ async function main() {
   }
 }
 
-// Handle graceful shutdown
-process.on('SIGINT', async () => {
-  logger.info('Received SIGINT, shutting down gracefully', {
-    operation: 'server_shutdown',
+// Start the server when run directly (the tests import createServer instead)
+if (require.main === module) {
+  // Handle graceful shutdown
+  process.on('SIGINT', async () => {
+    logger.info('Received SIGINT, shutting down gracefully', {
+      operation: 'server_shutdown',
+    });
+
+    // Log final metrics
+    logger.logMetrics();
+
+    // Cleanup
+    await httpTransport?.stop();
+    await sessionManager.endAll();
+    globalCache.destroy();
+    globalRateLimiter.destroy();
+
+    process.exit(0);
   });
-  
-  // Log final metrics
-  logger.logMetrics();
-  
-  // Cleanup
-  globalCache.destroy();
-  globalRateLimiter.destroy();
-  
-  process.exit(0);
-});
-
-process.on('SIGTERM', async () => {
-  logger.info('Received SIGTERM, shutting down gracefully', {
-    operation: 'server_shutdown',
+
+  process.on('SIGTERM', async () => {
+    logger.info('Received SIGTERM, shutting down gracefully', {
+      operation: 'server_shutdown',
+    });
+
+    // Log final metrics
+    logger.logMetrics();
+
+    // Cleanup
+    await httpTransport?.stop();
+    await sessionManager.endAll();
+    globalCache.destroy();
+    globalRateLimiter.destroy();
+
+    process.exit(0);
   });
-  
-  // Log final metrics
-  logger.logMetrics();
-  
-  // Cleanup
-  globalCache.destroy();
-  globalRateLimiter.destroy();
-  
-  process.exit(0);
-});
-
-// Handle uncaught exceptions
-process.on('uncaughtException', (error) => {
-  logger.error('Uncaught exception', {
-    operation: 'uncaught_exception',
-  }, error);
-  process.exit(1);
-});
-
-process.on('unhandledRejection', (reason, promise) => {
-  logger.error('Unhandled rejection', {
-    operation: 'unhandled_rejection',
-    reason: reason instanceof Error ? reason.message : String(reason),
+
+  // Handle uncaught exceptions
+  process.on('uncaughtException', (error) => {
+    logger.error('Uncaught exception', {
+      operation: 'uncaught_exception',
+    }, error);
+    process.exit(1);
   });
-  process.exit(1);
-});
 
-// Start the server
-main().catch((error) => {
-  logger.error('Failed to start server', {
-    operation: 'server_startup_failure',
-  }, error);
-  process.exit(1);
-}); 
\ No newline at end of file
+  process.on('unhandledRejection', (reason) => {
+    logger.error('Unhandled rejection', {
+      operation: 'unhandled_rejection',
+      reason: reason instanceof Error ? reason.message : String(reason),
+    });
+    process.exit(1);
+  });
+
+  // Start the server
+  main().catch((error) => {
+    logger.error('Failed to start server', {
+      operation: 'server_startup_failure',
+    }, error);
+    process.exit(1);
+  }); 
+}
@@ -0,0 +1,42 @@
+import { AccountProfile, LinkLibraryError, LinkLibraryUser } from '../types';
+import { AccountContext } from './account-context';
+import { AuthService } from './auth-service';
+
+const profile: AccountProfile = { name: 'default', env_prefix: 'LL_', token: 'tok' };
+
+const user: LinkLibraryUser = {
+  id: 'user-1',
+  email: 'me@example.com',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+const fakeAuth = (resumeWithToken: jest.Mock) =>
+  ({ resumeWithToken, clearToken: jest.fn() }) as unknown as jest.Mocked<AuthService>;
+
+describe('AccountContext', () => {
+  it('should try the configured credentials again after a failed sign-in', async () => {
+    const resume = jest
+      .fn()
+      .mockRejectedValueOnce(new LinkLibraryError('Service unavailable', 503))
+      .mockResolvedValue(user);
+    const account = new AccountContext(profile, 'test:account', { auth: fakeAuth(resume) });
+
+    await expect(account.bootstrapAuth()).resolves.toMatchObject({ user: null });
+    await expect(account.bootstrapAuth()).resolves.toMatchObject({ user, method: 'env_token' });
+    expect(resume).toHaveBeenCalledTimes(2);
+    account.dispose();
+  });
+
+  it('should keep a successful sign-in and share it between callers', async () => {
+    const resume = jest.fn().mockResolvedValue(user);
+    const account = new AccountContext(profile, 'test:account', { auth: fakeAuth(resume) });
+
+    const [first, second] = await Promise.all([account.bootstrapAuth(), account.bootstrapAuth()]);
+    await account.bootstrapAuth();
+
+    expect(first).toBe(second);
+    expect(resume).toHaveBeenCalledTimes(1);
+    account.dispose();
+  });
+});
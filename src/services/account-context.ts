@@ -0,0 +1,115 @@
+import { AccountProfile } from "../types";
+import { CacheNamespace } from "../utils/cache";
+import { logger } from "../utils/logger";
+import { ApiClient } from "./api-client";
+import { AuthService } from "./auth-service";
+import { AuthBootstrapResult, bootstrapAuthentication } from "./auth-bootstrap";
+import { credentialStore } from "./credential-store";
+
+// The per-account state an account context can be built from
+export interface AccountParts {
+  cache: CacheNamespace;
+  api: ApiClient;
+  auth: AuthService;
+}
+
+// What logging an account out did
+export interface AccountLogoutResult {
+  email: string | null;
+  removed_saved_token: boolean;
+  cleared_cache_entries: number;
+}
+
+// Account context class: one configured account within a session — its
+// sign-in, API client (with its own rate limits) and cache namespace
+export class AccountContext {
+  readonly cache: CacheNamespace;
+  readonly api: ApiClient;
+  readonly auth: AuthService;
+
+  private authBootstrap: Promise<AuthBootstrapResult> | null = null;
+
+  // persistTokens: save the account's sign-ins to the credential store (see bootstrapAuthentication)
+  constructor(
+    readonly profile: AccountProfile,
+    cachePrefix: string,
+    parts: Partial<AccountParts> = {},
+    private persistTokens: boolean = false,
+  ) {
+    this.cache = parts.cache || new CacheNamespace(cachePrefix);
+    this.api = parts.api || new ApiClient(this.cache, profile.name);
+    this.auth = parts.auth || new AuthService(this.api, this.cache, profile);
+  }
+
+  get name(): string {
+    return this.profile.name;
+  }
+
+  // Sign in with the account's configured credentials. Calls share one attempt and
+  // a successful sign-in is kept (after logout the account stays signed out), but
+  // a failed one is forgotten so the next call tries again, e.g. once the API is reachable
+  bootstrapAuth(): Promise<AuthBootstrapResult> {
+    if (!this.authBootstrap) {
+      const attempt = bootstrapAuthentication(
+        this.auth,
+        this.profile,
+        credentialStore,
+        this.profile.name,
+        this.persistTokens,
+      );
+      const forget = (): void => {
+        if (this.authBootstrap === attempt) {
+          this.authBootstrap = null;
+        }
+      };
+      attempt.then((result) => {
+        if (!result.user) forget();
+      }, forget);
+      this.authBootstrap = attempt;
+    }
+    return this.authBootstrap;
+  }
+
+  // Sign out: end the token at the API (/auth/logout), drop every response
+  // cached for the account and remove its token from the credential store
+  async logout(): Promise<AccountLogoutResult> {
+    const email = this.auth.getUserEmail();
+    await this.auth.logout();
+    const cleared = this.cache.clear();
+    const removed = this.forgetStoredToken(email);
+
+    logger.info("Account logged out", {
+      operation: "account_logout",
+      account: this.name,
+      cleared_cache_entries: cleared,
+      removed_saved_token: removed,
+    });
+    return { email, removed_saved_token: removed, cleared_cache_entries: cleared };
+  }
+
+  // Remove the saved token only when it belongs to the user logging out (another
+  // session may have signed this account in as someone else). The session is
+  // signed out either way, so a store that cannot be written is only logged.
+  private forgetStoredToken(email: string | null): boolean {
+    try {
+      const stored = credentialStore.load(this.name);
+      if (!email || stored?.email.toLowerCase() !== email.toLowerCase()) {
+        return false;
+      }
+      return credentialStore.remove(this.name);
+    } catch (error) {
+      logger.warn("Could not remove the saved token from the credential store", {
+        operation: "credential_store_remove_failure",
+        account: this.name,
+        reason: error instanceof Error ? error.message : "Unknown error",
+      });
+      return false;
+    }
+  }
+
+  // Forget the account's token and drop its cached data; returns the number of entries cleared
+  dispose(): number {
+    this.auth.clearToken();
+    return this.cache.clear();
+  }
+}
@@ -1,7 +1,7 @@
 import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from "axios";
-import { getApiBaseUrl, getTimeoutMs, getMaxRetries } from "../config";
+import { DEFAULT_ACCOUNT, getApiBaseUrl, getTimeoutMs, getMaxRetries } from "../config";
 import { logger, generateRequestId } from "../utils/logger";
-import { globalCache, CacheUtils } from "../utils/cache";
+import { CacheNamespace, CacheUtils, defaultCacheNamespace } from "../utils/cache";
 import { globalRateLimiter } from "../utils/rate-limiter";
 import {
   LinkLibraryError,
@@ -18,6 +18,24 @@ interface ApiClientConfig {
   retryDelay: number;
 }
 
+// A successful write (POST, PUT, PATCH, DELETE) and the data the API returned
+export interface MutationEvent {
+  method: string;
+  url: string;
+  data: unknown;
+}
+
+export type MutationListener = (event: MutationEvent) => void;
+
+// Gets a working token after the API rejected the current one; resolves false when it cannot
+export type AuthRecoveryHandler = () => Promise<boolean>;
+
+// Request options: fresh reads a GET from the API even when a response is
+// cached (the new response is still cached)
+export interface ApiRequestConfig extends AxiosRequestConfig {
+  fresh?: boolean;
+}
+
 // Retry configuration
 interface RetryConfig {
   maxRetries: number;
@@ -31,8 +49,15 @@ export class ApiClient {
   private config: ApiClientConfig;
   private retryConfig: RetryConfig;
   private currentToken: string | null = null;
-
-  constructor() {
+  private mutationListeners: MutationListener[] = [];
+  private authRecovery: AuthRecoveryHandler | null = null;
+
+  // Responses are cached in the given namespace, so each session and account gets its
+  // own, and rate limits are counted per account
+  constructor(
+    private cache: CacheNamespace = defaultCacheNamespace,
+    private account: string = DEFAULT_ACCOUNT,
+  ) {
     this.config = {
       baseURL: getApiBaseUrl(),
       timeout: getTimeoutMs(),
@@ -147,7 +172,7 @@ export class ApiClient {
   }
 
   // Make authenticated request with retry logic
-  async request<T = any>(config: AxiosRequestConfig): Promise<T> {
+  async request<T = any>({ fresh, ...config }: ApiRequestConfig): Promise<T> {
     const requestId = generateRequestId();
     const stopTimer = logger.startTimer(
       "API Request",
@@ -161,7 +186,7 @@ export class ApiClient {
 
     try {
       // Check rate limit
-      const rateLimitKey = `api:${config.method}:${config.url}`;
+      const rateLimitKey = `api:${this.account}:${config.method}:${config.url}`;
       if (!globalRateLimiter.isAllowed(rateLimitKey)) {
         const info = globalRateLimiter.getInfo(rateLimitKey);
         throw new RateLimitError(
@@ -171,35 +196,26 @@ export class ApiClient {
       }
 
       // Try to get from cache for GET requests
-      if (config.method?.toLowerCase() === "get") {
-        const cacheKey = CacheUtils.generateKey(
-          "api",
-          config.method,
-          config.url,
-          config.params,
-        );
-        const cachedResult = globalCache.get(cacheKey);
-        if (cachedResult) {
-          stopTimer();
-          return cachedResult;
-        }
+      const cachedResult = this.cachedResponse<T>(config, fresh);
+      if (cachedResult) {
+        stopTimer();
+        return cachedResult;
       }
 
       // Make request with retry logic
-      const response = await this.makeRequestWithRetry<T>(config);
+      const response = await this.sendWithAuthRecovery<T>(config);
 
       // Cache GET responses
       if (config.method?.toLowerCase() === "get" && response) {
-        const cacheKey = CacheUtils.generateKey(
-          "api",
-          config.method,
-          config.url,
-          config.params,
-        );
-        globalCache.set(cacheKey, response, 300000); // 5 minutes cache
+        this.cache.set(this.cacheKey(config), response, 300000); // 5 minutes cache
       }
 
       stopTimer();
+
+      if (config.method && config.method.toLowerCase() !== "get") {
+        this.notifyMutation(config.method, config.url || "", response);
+      }
+
       return response;
     } catch (error) {
       stopTimer();
@@ -207,6 +223,79 @@ export class ApiClient {
     }
   }
 
+  // The key a GET response is cached under
+  private cacheKey(config: AxiosRequestConfig): string {
+    return CacheUtils.generateKey("api", config.method, config.url, config.params);
+  }
+
+  // The cached response to a GET request, unless it has to be read fresh
+  private cachedResponse<T>(config: AxiosRequestConfig, fresh?: boolean): T | null {
+    if (fresh || config.method?.toLowerCase() !== "get") {
+      return null;
+    }
+    return this.cache.get<T>(this.cacheKey(config));
+  }
+
+  // Register a listener for successful writes; returns a function that removes it
+  onMutation(listener: MutationListener): () => void {
+    this.mutationListeners.push(listener);
+    return () => {
+      this.mutationListeners = this.mutationListeners.filter(
+        (existing) => existing !== listener,
+      );
+    };
+  }
+
+  // Tell mutation listeners about a successful write
+  private notifyMutation(method: string, url: string, data: unknown): void {
+    for (const listener of this.mutationListeners) {
+      try {
+        listener({ method: method.toUpperCase(), url, data });
+      } catch (error) {
+        logger.warn("Mutation listener failed", {
+          operation: "api_mutation_listener_failure",
+          reason: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    }
+  }
+
+  // Register the handler that refreshes or re-acquires the token after a 401
+  setAuthRecovery(handler: AuthRecoveryHandler | null): void {
+    this.authRecovery = handler;
+  }
+
+  // Send a request; when the API rejects the token, recover it and replay the request once
+  private async sendWithAuthRecovery<T>(config: AxiosRequestConfig): Promise<T> {
+    const token = this.currentToken;
+    try {
+      return await this.makeRequestWithRetry<T>(config);
+    } catch (error) {
+      // Auth endpoints report bad credentials themselves; recovering there would loop
+      if (
+        !(error instanceof AuthenticationError) ||
+        !token ||
+        !this.authRecovery ||
+        config.url?.startsWith("/auth/")
+      ) {
+        throw error;
+      }
+
+      logger.info("API rejected the token, recovering and replaying the request", {
+        operation: "api_auth_recovery",
+        method: config.method,
+        url: config.url,
+      });
+
+      // Another request may already have recovered while this one was in flight
+      const recovered = this.currentToken !== token || (await this.authRecovery());
+      if (!recovered) {
+        throw error;
+      }
+      return this.makeRequestWithRetry<T>(config);
+    }
+  }
+
   // Make request with retry logic
   private async makeRequestWithRetry<T>(
     config: AxiosRequestConfig,
@@ -242,13 +331,17 @@ export class ApiClient {
 
   // Determine if request should be retried
   private shouldRetry(error: any): boolean {
-    // Don't retry on client errors (4xx) except 429 (rate limit)
-    if (error.response?.status >= 400 && error.response?.status < 500) {
-      return error.response?.status === 429;
+    // The response interceptor has already turned the error into a LinkLibraryError
+    const status =
+      error instanceof LinkLibraryError ? error.statusCode : error.response?.status;
+
+    // Don't retry on client errors (4xx) except 429 (rate limit) and 408 (timeout)
+    if (status >= 400 && status < 500) {
+      return status === 429 || status === 408;
     }
 
     // Retry on server errors (5xx) and network errors
-    return error.response?.status >= 500 || !error.response;
+    return status >= 500 || status === undefined;
   }
 
   // Sleep utility
@@ -295,7 +388,7 @@ export class ApiClient {
   }
 
   // Convenience methods
-  async get<T = any>(url: string, config?: AxiosRequestConfig): Promise<T> {
+  async get<T = any>(url: string, config?: ApiRequestConfig): Promise<T> {
     return this.request<T>({ ...config, method: "GET", url });
   }
 
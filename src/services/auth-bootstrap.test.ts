@@ -0,0 +1,205 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DEFAULT_ACCOUNT } from '../config';
+import { AuthenticationError, LinkLibraryError, LinkLibraryUser } from '../types';
+import { bootstrapAuthentication } from './auth-bootstrap';
+import { AuthService } from './auth-service';
+import { CredentialStore } from './credential-store';
+import { TokenListener } from './token-refresher';
+
+const user: LinkLibraryUser = {
+  id: 'user-1',
+  email: 'me@example.com',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+const fakeAuth = (overrides: Partial<Record<'resumeWithToken' | 'authenticate', jest.Mock>> = {}) => {
+  const auth = {
+    resumeWithToken: jest.fn().mockResolvedValue(user),
+    authenticate: jest.fn().mockResolvedValue(user),
+    onToken: jest.fn(),
+    ...overrides,
+  };
+  return auth as unknown as jest.Mocked<AuthService>;
+};
+
+describe('bootstrapAuthentication', () => {
+  let dir: string;
+  let disabledStore: CredentialStore;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'll-bootstrap-'));
+    disabledStore = new CredentialStore({ dir });
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should resolve the user behind LL_TOKEN', async () => {
+    const auth = fakeAuth();
+
+    const result = await bootstrapAuthentication(
+      auth,
+      { token: 'tok', username: 'me@example.com', password: 'pw' },
+      disabledStore,
+    );
+
+    expect(result).toEqual({ user, method: 'env_token', diagnostics: [] });
+    expect(auth.resumeWithToken).toHaveBeenCalledWith('tok');
+    expect(auth.authenticate).not.toHaveBeenCalled();
+    expect(auth.onToken).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to a password login when the token is rejected', async () => {
+    const auth = fakeAuth({
+      resumeWithToken: jest.fn().mockRejectedValue(new AuthenticationError('Token expired')),
+    });
+
+    const result = await bootstrapAuthentication(
+      auth,
+      { token: 'old', username: 'me@example.com', password: 'pw' },
+      disabledStore,
+    );
+
+    expect(result.method).toBe('password');
+    expect(result.diagnostics).toEqual(['LL_TOKEN was rejected by /auth/me (Token expired).']);
+    expect(auth.authenticate).toHaveBeenCalledWith('me@example.com', 'pw');
+  });
+
+  it('should say /auth/me could not be reached instead of blaming the token', async () => {
+    const auth = fakeAuth({
+      resumeWithToken: jest.fn().mockRejectedValue(new LinkLibraryError('Service unavailable', 503)),
+    });
+
+    const result = await bootstrapAuthentication(auth, { token: 'tok' }, disabledStore);
+
+    expect(result.user).toBeNull();
+    expect(result.diagnostics).toEqual([
+      '/auth/me could not be reached to check LL_TOKEN (Service unavailable); it will be tried again.',
+    ]);
+  });
+
+  it('should keep a saved token that could not be checked', async () => {
+    const store = new CredentialStore({ dir, passphrase: 'secret' });
+    store.save(DEFAULT_ACCOUNT, { email: 'me@example.com', token: 'saved', expires_at: null, saved_at: '' });
+    const auth = fakeAuth({
+      resumeWithToken: jest.fn().mockRejectedValue(new LinkLibraryError('Request timeout', 408)),
+      authenticate: jest.fn().mockRejectedValue(new LinkLibraryError('Request timeout', 408)),
+    });
+
+    await bootstrapAuthentication(auth, { username: 'me@example.com', password: 'pw' }, store);
+
+    expect(store.load(DEFAULT_ACCOUNT)?.token).toBe('saved');
+  });
+
+  it('should explain every failure when nothing works', async () => {
+    const auth = fakeAuth({
+      resumeWithToken: jest.fn().mockRejectedValue(new AuthenticationError('Token expired')),
+      authenticate: jest.fn().mockRejectedValue(new AuthenticationError('Invalid credentials')),
+    });
+
+    const result = await bootstrapAuthentication(
+      auth,
+      { token: 'old', username: 'me@example.com', password: 'bad' },
+      disabledStore,
+    );
+
+    expect(result.user).toBeNull();
+    expect(result.diagnostics).toEqual([
+      'LL_TOKEN was rejected by /auth/me (Token expired).',
+      'Password login as me@example.com failed (Invalid credentials).',
+    ]);
+    expect(auth.authenticate).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report missing credentials', async () => {
+    const result = await bootstrapAuthentication(fakeAuth(), { username: 'me@example.com' }, disabledStore);
+
+    expect(result.diagnostics).toEqual([
+      'LL_USERNAME is set but no password is configured (LL_PASSWORD, LL_PASSWORD_FILE or LL_CREDENTIAL_HELPER).',
+    ]);
+  });
+
+  it('should resume a saved token before logging in with a password', async () => {
+    const store = new CredentialStore({ dir, passphrase: 'secret' });
+    store.save(DEFAULT_ACCOUNT, { email: 'me@example.com', token: 'saved', expires_at: null, saved_at: '' });
+    const auth = fakeAuth();
+
+    const result = await bootstrapAuthentication(auth, { username: 'me@example.com', password: 'pw' }, store);
+
+    expect(result.method).toBe('persisted_token');
+    expect(auth.resumeWithToken).toHaveBeenCalledWith('saved', 'persisted_token');
+    expect(auth.authenticate).not.toHaveBeenCalled();
+  });
+
+  it('should drop a rejected saved token and save the one from the password login', async () => {
+    const store = new CredentialStore({ dir, passphrase: 'secret' });
+    store.save(DEFAULT_ACCOUNT, { email: 'me@example.com', token: 'stale', expires_at: null, saved_at: '' });
+    let listener: TokenListener | undefined;
+    const auth = fakeAuth({
+      resumeWithToken: jest.fn().mockRejectedValue(new AuthenticationError('Token expired')),
+      authenticate: jest.fn().mockImplementation(async () => {
+        listener?.('fresh', user);
+        return user;
+      }),
+    });
+    auth.onToken.mockImplementation((registered) => {
+      listener = registered;
+      return () => undefined;
+    });
+
+    const result = await bootstrapAuthentication(auth, { username: 'me@example.com', password: 'pw' }, store);
+
+    expect(result.method).toBe('password');
+    expect(result.diagnostics).toEqual([
+      'The saved token for me@example.com was rejected by /auth/me (Token expired).',
+    ]);
+    expect(store.load(DEFAULT_ACCOUNT)?.token).toBe('fresh');
+  });
+
+  it('should ignore a saved token that belongs to another account', async () => {
+    const store = new CredentialStore({ dir, passphrase: 'secret' });
+    store.save(DEFAULT_ACCOUNT, { email: 'other@example.com', token: 'saved', expires_at: null, saved_at: '' });
+    const auth = fakeAuth();
+
+    const result = await bootstrapAuthentication(auth, { username: 'me@example.com', password: 'pw' }, store);
+
+    expect(result.method).toBe('password');
+    expect(auth.resumeWithToken).not.toHaveBeenCalled();
+  });
+
+  it('should neither resume nor save tokens when LL_USERNAME is not configured', async () => {
+    const store = new CredentialStore({ dir, passphrase: 'secret' });
+    store.save(DEFAULT_ACCOUNT, { email: 'alice@example.com', token: 'saved', expires_at: null, saved_at: '' });
+    const auth = fakeAuth();
+
+    const result = await bootstrapAuthentication(auth, {}, store);
+
+    expect(result.user).toBeNull();
+    expect(auth.resumeWithToken).not.toHaveBeenCalled();
+    expect(auth.onToken).not.toHaveBeenCalled();
+  });
+
+  it('should only save tokens of the configured user, and none when persistence is off', async () => {
+    const store = new CredentialStore({ dir, passphrase: 'secret' });
+    let listener: TokenListener | undefined;
+    const auth = fakeAuth();
+    auth.onToken.mockImplementation((registered) => {
+      listener = registered;
+      return () => undefined;
+    });
+
+    await bootstrapAuthentication(auth, { username: 'me@example.com', password: 'pw' }, store);
+    listener?.('theirs', { ...user, email: 'alice@example.com' });
+    expect(store.load(DEFAULT_ACCOUNT)).toBeNull();
+    listener?.('mine', user);
+    expect(store.load(DEFAULT_ACCOUNT)?.token).toBe('mine');
+
+    const httpAuth = fakeAuth();
+    await bootstrapAuthentication(httpAuth, { username: 'me@example.com', password: 'pw' }, store, 'work', false);
+    expect(httpAuth.onToken).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,207 @@
+import { DEFAULT_ACCOUNT, authConfig } from "../config";
+import { AuthMethod, LinkLibraryUser, isAuthRejection } from "../types";
+import { getTokenExpiry } from "../utils/jwt";
+import { logger } from "../utils/logger";
+import { PasswordSources, describePasswordSource, resolvePassword } from "../utils/secrets";
+import type { AuthService } from "./auth-service";
+import { CredentialStore, credentialStore } from "./credential-store";
+
+// Startup authentication: turn the configured credentials into a signed-in
+// user, so token-only setups work without calling the authenticate tool
+
+export interface AuthBootstrapResult {
+  user: LinkLibraryUser | null;
+  method: AuthMethod | null;
+  // Why each configured credential could not be used, in the order tried
+  diagnostics: string[];
+}
+
+export interface StartupCredentials extends PasswordSources {
+  token?: string;
+}
+
+// What one startup sign-in works with
+interface BootstrapContext {
+  auth: AuthService;
+  credentials: StartupCredentials;
+  store: CredentialStore;
+  account: string;
+  diagnostics: string[];
+}
+
+function reason(error: unknown): string {
+  return error instanceof Error ? error.message : "Unknown error";
+}
+
+function sameEmail(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+// Prefix of the environment variables the credentials came from (LL_ or LL_ACCOUNT_<NAME>_)
+function envPrefix(credentials: StartupCredentials): string {
+  return credentials.env_prefix || "LL_";
+}
+
+// Why a token could not be resumed: only a 401/403 means it was rejected; otherwise
+// it is kept and tried again with the next sign-in attempt
+function tokenFailure(token: string, error: unknown): string {
+  return isAuthRejection(error)
+    ? `${token} was rejected by /auth/me (${reason(error)}).`
+    : `/auth/me could not be reached to check ${token} (${reason(error)}); it will be tried again.`;
+}
+
+async function tryEnvToken({ auth, credentials, diagnostics }: BootstrapContext): Promise<LinkLibraryUser | null> {
+  if (!credentials.token) return null;
+
+  try {
+    return await auth.resumeWithToken(credentials.token);
+  } catch (error) {
+    diagnostics.push(tokenFailure(`${envPrefix(credentials)}TOKEN`, error));
+    return null;
+  }
+}
+
+// Resume the token saved by an earlier run; only for the configured LL_USERNAME,
+// so a token saved for one user is never handed to a session that did not configure them
+async function tryStoredToken(context: BootstrapContext): Promise<LinkLibraryUser | null> {
+  const { auth, credentials, store, account, diagnostics } = context;
+  if (!credentials.username) return null;
+
+  let stored;
+  try {
+    stored = store.load(account);
+  } catch (error) {
+    diagnostics.push(`The credential store could not be read (${reason(error)}).`);
+    return null;
+  }
+  if (!stored || !sameEmail(stored.email, credentials.username)) return null;
+
+  try {
+    return await auth.resumeWithToken(stored.token, "persisted_token");
+  } catch (error) {
+    diagnostics.push(tokenFailure(`The saved token for ${stored.email}`, error));
+    if (isAuthRejection(error)) {
+      forgetStoredToken(store, account);
+    }
+    return null;
+  }
+}
+
+async function tryPassword({ auth, credentials, diagnostics }: BootstrapContext): Promise<LinkLibraryUser | null> {
+  if (!credentials.username) return null;
+
+  if (!describePasswordSource(credentials)) {
+    const prefix = envPrefix(credentials);
+    diagnostics.push(
+      `${prefix}USERNAME is set but no password is configured (${prefix}PASSWORD, ${prefix}PASSWORD_FILE or ${prefix}CREDENTIAL_HELPER).`,
+    );
+    return null;
+  }
+
+  try {
+    const password = await resolvePassword(credentials);
+    return await auth.authenticate(credentials.username, password);
+  } catch (error) {
+    diagnostics.push(`Password login as ${credentials.username} failed (${reason(error)}).`);
+    return null;
+  }
+}
+
+function forgetStoredToken(store: CredentialStore, account: string): void {
+  try {
+    store.remove(account);
+  } catch (error) {
+    logger.warn("Could not remove the rejected token from the credential store", {
+      operation: "credential_store_remove_failure",
+      reason: reason(error),
+    });
+  }
+}
+
+// Auth services whose tokens are already being saved (a failed bootstrap is tried again)
+const persisting = new WeakSet<AuthService>();
+
+// Save every token LL_USERNAME is given, so the next start can resume it
+// (tokens of any other user, e.g. from the authenticate tool, are never saved)
+function persistTokens({ auth, credentials, store, account }: BootstrapContext): void {
+  const email = credentials.username;
+  if (!email || persisting.has(auth)) return;
+  persisting.add(auth);
+
+  auth.onToken((token, user) => {
+    if (!sameEmail(user.email, email)) return;
+
+    try {
+      store.save(account, {
+        email: user.email,
+        token,
+        expires_at: getTokenExpiry(token)?.toISOString() || null,
+        saved_at: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.warn("Could not save credentials", {
+        operation: "credential_store_save_failure",
+        reason: reason(error),
+      });
+    }
+  });
+}
+
+// Try the account's token (validated against /auth/me), then the token saved
+// in the credential store, then a password login; whichever works schedules
+// its own token refresh. New tokens are only saved when persist is set (the
+// single-client stdio session; over HTTP any client can call authenticate).
+export async function bootstrapAuthentication(
+  auth: AuthService,
+  credentials: StartupCredentials = authConfig,
+  store: CredentialStore = credentialStore,
+  account: string = DEFAULT_ACCOUNT,
+  persist: boolean = true,
+): Promise<AuthBootstrapResult> {
+  const diagnostics: string[] = [];
+  const context: BootstrapContext = { auth, credentials, store, account, diagnostics };
+  if (persist && store.isEnabled()) {
+    persistTokens(context);
+  }
+
+  const attempts: Array<[AuthMethod, (context: BootstrapContext) => Promise<LinkLibraryUser | null>]> = [
+    ["env_token", tryEnvToken],
+    ["persisted_token", tryStoredToken],
+    ["password", tryPassword],
+  ];
+
+  for (const [method, attempt] of attempts) {
+    const user = await attempt(context);
+    if (!user) continue;
+
+    logger.info("Startup authentication succeeded", {
+      operation: "auth_bootstrap_success",
+      account,
+      method,
+      user_id: user.id,
+    });
+    if (diagnostics.length > 0) {
+      logger.warn("Signed in after other configured credentials failed", {
+        operation: "auth_bootstrap_fallback",
+        account,
+        method,
+        diagnostics,
+      });
+    }
+    return { user, method, diagnostics };
+  }
+
+  if (diagnostics.length === 0) {
+    const prefix = envPrefix(credentials);
+    diagnostics.push(
+      `No credentials configured (set ${prefix}TOKEN, or ${prefix}USERNAME with ${prefix}PASSWORD, ${prefix}PASSWORD_FILE or ${prefix}CREDENTIAL_HELPER).`,
+    );
+  }
+
+  logger.error("Startup authentication failed", {
+    operation: "auth_bootstrap_failure",
+    account,
+    diagnostics,
+  });
+  return { user: null, method: null, diagnostics };
+}
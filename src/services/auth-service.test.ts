@@ -0,0 +1,51 @@
+import { AuthenticationError, LinkLibraryError } from '../types';
+import { CacheNamespace } from '../utils/cache';
+import { ApiClient } from './api-client';
+import { AuthService } from './auth-service';
+
+const fakeApi = (refresh: jest.Mock) =>
+  ({
+    post: refresh,
+    setAuthRecovery: jest.fn(),
+    setToken: jest.fn(),
+    clearToken: jest.fn(),
+  }) as unknown as jest.Mocked<ApiClient>;
+
+describe('AuthService', () => {
+  describe('resumeWithToken', () => {
+    it('should keep a token /auth/me could not check and drop a rejected one', async () => {
+      const api = fakeApi(jest.fn());
+      api.get = jest
+        .fn()
+        .mockRejectedValueOnce(new LinkLibraryError('Service unavailable', 503))
+        .mockRejectedValueOnce(new LinkLibraryError('Forbidden', 403));
+      const auth = new AuthService(api, new CacheNamespace('test:auth'), {});
+
+      await expect(auth.resumeWithToken('tok')).rejects.toThrow('Service unavailable');
+      expect(api.clearToken).not.toHaveBeenCalled();
+
+      await expect(auth.resumeWithToken('tok')).rejects.toThrow('Forbidden');
+      expect(api.clearToken).toHaveBeenCalled();
+    });
+  });
+
+  describe('refreshToken', () => {
+    it('should drop the token when the API rejects it', async () => {
+      const api = fakeApi(jest.fn().mockRejectedValue(new AuthenticationError('Token expired')));
+      const auth = new AuthService(api, new CacheNamespace('test:auth'), {});
+
+      await expect(auth.refreshToken()).resolves.toBe(false);
+      expect(api.clearToken).toHaveBeenCalled();
+    });
+
+    it('should keep the token when the API cannot be reached or fails', async () => {
+      for (const error of [new LinkLibraryError('Service unavailable', 503), new Error('socket hang up')]) {
+        const api = fakeApi(jest.fn().mockRejectedValue(error));
+        const auth = new AuthService(api, new CacheNamespace('test:auth'), {});
+
+        await expect(auth.refreshToken()).resolves.toBe(false);
+        expect(api.clearToken).not.toHaveBeenCalled();
+      }
+    });
+  });
+});
@@ -1,24 +1,35 @@
 import {
   LinkLibraryUser,
   LinkLibraryAuthResponse,
+  LinkLibraryError,
   AuthenticationError,
+  AuthMethod,
+  AuthStatus,
+  isAuthRejection,
 } from "../types";
 import { authConfig } from "../config";
-import { apiClient } from "./api-client";
+import { ApiClient, apiClient } from "./api-client";
 import { logger } from "../utils/logger";
-import { globalCache } from "../utils/cache";
+import { CacheNamespace, defaultCacheNamespace } from "../utils/cache";
 import { globalRateLimiter } from "../utils/rate-limiter";
+import { PasswordSources, resolvePassword } from "../utils/secrets";
+import { TokenListener, TokenRefresher } from "./token-refresher";
 
 // Authentication service class
 export class AuthService {
   private currentUser: LinkLibraryUser | null = null;
-  private tokenRefreshTimer: ReturnType<typeof setTimeout> | null = null;
-
-  constructor() {
-    // Initialize with token from environment if available
-    if (authConfig.token) {
-      this.setToken(authConfig.token);
-    }
+  private method: AuthMethod | null = null;
+  private refresher = new TokenRefresher(this);
+
+  // Configured credentials (LL_TOKEN, LL_USERNAME/LL_PASSWORD) are applied by bootstrapAuthentication;
+  // authenticate falls back to the account's username and password
+  constructor(
+    private api: ApiClient = apiClient,
+    private cache: CacheNamespace = defaultCacheNamespace,
+    private credentials: PasswordSources = authConfig,
+  ) {
+    // Requests rejected with a 401 are replayed once the token has been recovered
+    this.api.setAuthRecovery(() => this.refresher.recover());
   }
 
   // Authenticate with username and password
@@ -26,8 +37,8 @@ export class AuthService {
     username?: string,
     password?: string,
   ): Promise<LinkLibraryUser> {
-    const email = username || authConfig.username;
-    const pwd = password || authConfig.password;
+    const email = username || this.credentials.username;
+    const pwd = password || (await resolvePassword(this.credentials));
 
     if (!email || !pwd) {
       throw new AuthenticationError("Username and password are required");
@@ -48,7 +59,7 @@ export class AuthService {
       formData.append('username', email);
       formData.append('password', pwd);
 
-      const response = await apiClient.post<LinkLibraryAuthResponse>(
+      const response = await this.api.post<LinkLibraryAuthResponse>(
         "/auth/login",
         formData,
         {
@@ -60,6 +71,9 @@ export class AuthService {
 
       this.setToken(response.access_token);
       this.currentUser = response.user;
+      this.method = "password";
+      this.refresher.rememberCredentials(email, pwd);
+      this.refresher.accepted(response.access_token, response.user);
 
       logger.info("Authentication successful", {
         operation: "auth_success",
@@ -86,10 +100,10 @@ export class AuthService {
 
   // Set authentication token
   setToken(token: string): void {
-    apiClient.setToken(token);
+    this.api.setToken(token);
 
     // Cache the token
-    globalCache.set("auth:token", token, 3600000); // 1 hour cache
+    this.cache.set("auth:token", token, 3600000); // 1 hour cache
 
     logger.info("Authentication token set", {
       operation: "auth_token_set",
@@ -104,17 +118,17 @@ export class AuthService {
 
     // Try to get from cache first
     const cacheKey = `auth:user:${this.currentUser.id}`;
-    const cachedUser = globalCache.get(cacheKey);
+    const cachedUser = this.cache.get<LinkLibraryUser>(cacheKey);
     if (cachedUser) {
       return cachedUser;
     }
 
     try {
-      const user = await apiClient.get<LinkLibraryUser>("/auth/me");
+      const user = await this.api.get<LinkLibraryUser>("/auth/me");
       this.currentUser = user;
 
       // Cache user data
-      globalCache.set(cacheKey, user, 300000); // 5 minutes cache
+      this.cache.set(cacheKey, user, 300000); // 5 minutes cache
 
       return user;
     } catch (error) {
@@ -132,20 +146,25 @@ export class AuthService {
     }
   }
 
-  // Validate current token
+  // Validate current token (getCurrentUser clears it when the API rejects it)
   async validateToken(): Promise<boolean> {
+    return (await this.getCurrentUser()) !== null;
+  }
+
+  // Adopt an existing token, resolving its user through /auth/me (kept for a retry unless rejected)
+  async resumeWithToken(token: string, method: AuthMethod = "env_token"): Promise<LinkLibraryUser> {
+    this.setToken(token);
+    this.cache.invalidatePattern("/auth/me");
     try {
-      const user = await this.getCurrentUser();
-      return user !== null;
+      this.currentUser = await this.api.get<LinkLibraryUser>("/auth/me");
+      this.method = method;
+      this.refresher.accepted(token, this.currentUser);
+      return this.currentUser;
     } catch (error) {
-      logger.error(
-        "Token validation failed",
-        {
-          operation: "token_validation_failure",
-        },
-        error as Error,
-      );
-      return false;
+      if (isAuthRejection(error)) {
+        this.clearToken();
+      }
+      throw error;
     }
   }
 
@@ -153,10 +172,11 @@ export class AuthService {
   async refreshToken(): Promise<boolean> {
     try {
       const response =
-        await apiClient.post<LinkLibraryAuthResponse>("/auth/refresh");
+        await this.api.post<LinkLibraryAuthResponse>("/auth/refresh");
 
       this.setToken(response.access_token);
       this.currentUser = response.user;
+      this.refresher.accepted(response.access_token, response.user);
 
       logger.info("Token refreshed successfully", {
         operation: "token_refresh_success",
@@ -165,23 +185,22 @@ export class AuthService {
 
       return true;
     } catch (error) {
-      logger.error(
-        "Token refresh failed",
-        {
-          operation: "token_refresh_failure",
-        },
-        error as Error,
-      );
+      logger.error("Token refresh failed", { operation: "token_refresh_failure" }, error as Error);
 
-      this.clearToken();
+      // Only a rejected token (AuthenticationError is a 401) is dropped; after a
+      // network or server error it may still work
+      if (error instanceof LinkLibraryError && error.statusCode === 401) {
+        this.clearToken();
+      }
       return false;
     }
   }
 
   // Logout
   async logout(): Promise<void> {
+    this.refresher.forgetCredentials();
     try {
-      await apiClient.post("/auth/logout");
+      await this.api.post("/auth/logout");
     } catch (error) {
       logger.warn("Logout API call failed", {
         operation: "logout_api_failure",
@@ -193,27 +212,29 @@ export class AuthService {
 
   // Clear authentication
   clearToken(): void {
-    apiClient.clearToken();
-    this.currentUser = null;
+    this.api.clearToken();
 
-    // Clear cached data
-    globalCache.delete("auth:token");
+    // Clear cached data (before forgetting the user whose profile is cached)
+    this.cache.delete("auth:token");
     if (this.currentUser) {
-      const user = this.currentUser as LinkLibraryUser;
-      globalCache.delete(`auth:user:${user.id}`);
+      this.cache.delete(`auth:user:${this.currentUser.id}`);
     }
+    this.currentUser = null;
+    this.method = null;
 
     // Clear refresh timer
-    if (this.tokenRefreshTimer) {
-      clearTimeout(this.tokenRefreshTimer);
-      this.tokenRefreshTimer = null;
-    }
+    this.refresher.cancel();
 
     logger.info("Authentication cleared", {
       operation: "auth_clear",
     });
   }
 
+  // Register a listener for accepted tokens (e.g. to persist them); returns a function that removes it
+  onToken(listener: TokenListener): () => void {
+    return this.refresher.onToken(listener);
+  }
+
   // Check if authenticated
   isAuthenticated(): boolean {
     return this.currentUser !== null;
@@ -239,36 +260,17 @@ export class AuthService {
     return this.currentUser?.full_name || this.currentUser?.email || null;
   }
 
-  // Setup automatic token refresh
-  setupTokenRefresh(): void {
-    if (this.tokenRefreshTimer) {
-      clearTimeout(this.tokenRefreshTimer);
-    }
-
-    // Refresh token 5 minutes before expiry (assuming 1 hour expiry)
-    this.tokenRefreshTimer = setTimeout(
-      async () => {
-        const success = await this.refreshToken();
-        if (success) {
-          this.setupTokenRefresh(); // Setup next refresh
-        }
-      },
-      55 * 60 * 1000,
-    ); // 55 minutes
-  }
-
-  // Get authentication status
-  getAuthStatus(): {
-    isAuthenticated: boolean;
-    userId: string | null;
-    userEmail: string | null;
-    userDisplayName: string | null;
-  } {
+  // Get authentication status, including how the token was obtained and its refresh schedule
+  getAuthStatus(): AuthStatus {
+    const { expiresAt, refreshAt } = this.refresher.getSchedule();
     return {
       isAuthenticated: this.isAuthenticated(),
       userId: this.getUserId(),
       userEmail: this.getUserEmail(),
       userDisplayName: this.getUserDisplayName(),
+      method: this.method,
+      tokenExpiresAt: expiresAt,
+      refreshAt,
     };
   }
 
@@ -284,7 +286,7 @@ export class AuthService {
   } {
     return {
       isAuthenticated: this.isAuthenticated(),
-      hasToken: apiClient.getStats().hasToken,
+      hasToken: this.api.getStats().hasToken,
       userInfo: {
         id: this.getUserId(),
         email: this.getUserEmail(),
@@ -0,0 +1,69 @@
+import { chmodSync, mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CredentialStore, StoredCredentials } from './credential-store';
+
+const credentials: StoredCredentials = {
+  email: 'me@example.com',
+  token: 'secret-token',
+  expires_at: '2024-01-01T13:00:00.000Z',
+  saved_at: '2024-01-01T12:00:00.000Z',
+};
+
+describe('CredentialStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'll-store-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should be disabled without a passphrase or key file', () => {
+    const store = new CredentialStore({ dir });
+
+    expect(store.isEnabled()).toBe(false);
+    expect(store.load('default')).toBeNull();
+  });
+
+  it('should save, load and remove credentials per account', () => {
+    const store = new CredentialStore({ dir, passphrase: 'passphrase' });
+
+    store.save('default', credentials);
+    store.save('work', { ...credentials, email: 'work@example.com' });
+
+    expect(store.load('default')).toEqual(credentials);
+    expect(store.remove('work')).toBe(true);
+    expect(store.remove('work')).toBe(false);
+    expect(store.load('work')).toBeNull();
+    expect(store.load('default')).toEqual(credentials);
+  });
+
+  it('should encrypt the file and keep it private', () => {
+    const store = new CredentialStore({ dir: join(dir, 'nested'), passphrase: 'passphrase' });
+    store.save('default', credentials);
+
+    expect(readFileSync(store.getPath(), 'utf8')).not.toContain('secret-token');
+    if (process.platform !== 'win32') {
+      expect(statSync(store.getPath()).mode & 0o777).toBe(0o600);
+      expect(statSync(join(dir, 'nested')).mode & 0o777).toBe(0o700);
+
+      chmodSync(store.getPath(), 0o644);
+      store.load('default');
+      expect(statSync(store.getPath()).mode & 0o777).toBe(0o600);
+    }
+  });
+
+  it('should use a key file and refuse the wrong secret', () => {
+    const keyFile = join(dir, 'key');
+    writeFileSync(keyFile, 'random key material');
+    new CredentialStore({ dir, keyFile }).save('default', credentials);
+
+    expect(new CredentialStore({ dir, keyFile }).load('default')).toEqual(credentials);
+    expect(() => new CredentialStore({ dir, passphrase: 'wrong' }).load('default')).toThrow(
+      'wrong passphrase or key file',
+    );
+  });
+});
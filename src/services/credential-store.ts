@@ -0,0 +1,135 @@
+import { chmodSync, existsSync, mkdirSync, readFileSync, renameSync, statSync, writeFileSync } from "fs";
+import { join } from "path";
+import { credentialStoreConfig } from "../config";
+import { LinkLibraryError } from "../types";
+import { EncryptedPayload, decrypt, encrypt } from "../utils/encryption";
+import { logger } from "../utils/logger";
+
+const STORE_FILE = "credentials.enc";
+
+// A saved sign-in: the token and when it expires or was last refreshed
+export interface StoredCredentials {
+  email: string;
+  token: string;
+  expires_at: string | null;
+  saved_at: string;
+}
+
+export interface CredentialStoreOptions {
+  dir: string;
+  passphrase?: string;
+  keyFile?: string;
+}
+
+// Credential store class: tokens kept across restarts in one encrypted file,
+// readable only by the owner (0600, in a 0700 directory)
+export class CredentialStore {
+  constructor(private options: CredentialStoreOptions) {}
+
+  // The store is only used when a passphrase or key file is configured
+  isEnabled(): boolean {
+    return !!(this.options.passphrase || this.options.keyFile);
+  }
+
+  getPath(): string {
+    return join(this.options.dir, STORE_FILE);
+  }
+
+  // Get the saved credentials for an account (null when there are none)
+  load(account: string): StoredCredentials | null {
+    return this.readAll()[account] || null;
+  }
+
+  save(account: string, credentials: StoredCredentials): void {
+    this.writeAll({ ...this.readAll(), [account]: credentials });
+    logger.info("Credentials saved", {
+      operation: "credential_store_save",
+      account,
+      expires_at: credentials.expires_at,
+    });
+  }
+
+  // Forget an account's credentials; returns whether there were any
+  remove(account: string): boolean {
+    const entries = this.readAll();
+    if (!entries[account]) {
+      return false;
+    }
+
+    delete entries[account];
+    this.writeAll(entries);
+    logger.info("Credentials removed", { operation: "credential_store_remove", account });
+    return true;
+  }
+
+  private secret(): string | Buffer {
+    if (this.options.passphrase) {
+      return this.options.passphrase;
+    }
+    if (!this.options.keyFile) {
+      throw new LinkLibraryError("Credential store is disabled (no passphrase or key file)", 500);
+    }
+
+    try {
+      return readFileSync(this.options.keyFile);
+    } catch (error) {
+      throw new LinkLibraryError(
+        `Could not read LL_CREDENTIAL_STORE_KEY_FILE (${error instanceof Error ? error.message : "Unknown error"})`,
+        500,
+      );
+    }
+  }
+
+  private readAll(): Record<string, StoredCredentials> {
+    const path = this.getPath();
+    if (!this.isEnabled() || !existsSync(path)) {
+      return {};
+    }
+    this.enforcePermissions(path);
+
+    try {
+      const payload = JSON.parse(readFileSync(path, "utf8")) as EncryptedPayload;
+      return JSON.parse(decrypt(payload, this.secret()));
+    } catch (error) {
+      if (error instanceof LinkLibraryError) throw error;
+      throw new LinkLibraryError(
+        `Could not decrypt ${path} (wrong passphrase or key file?)`,
+        500,
+      );
+    }
+  }
+
+  // Write to a private temporary file and rename it, so the store is never half-written
+  private writeAll(entries: Record<string, StoredCredentials>): void {
+    mkdirSync(this.options.dir, { recursive: true, mode: 0o700 });
+
+    const path = this.getPath();
+    const temporary = `${path}.${process.pid}.tmp`;
+    const payload = encrypt(JSON.stringify(entries), this.secret());
+    writeFileSync(temporary, JSON.stringify(payload), { mode: 0o600 });
+    chmodSync(temporary, 0o600);
+    renameSync(temporary, path);
+  }
+
+  // Tighten a store file that others can read (e.g. after being copied around)
+  private enforcePermissions(path: string): void {
+    const mode = statSync(path).mode & 0o777;
+    if (process.platform === "win32" || (mode & 0o077) === 0) {
+      return;
+    }
+
+    chmodSync(path, 0o600);
+    logger.warn("Credential store was readable by other users; permissions reset to 0600", {
+      operation: "credential_store_permissions",
+      path,
+      previous_mode: mode.toString(8),
+    });
+  }
+}
+
+// Global credential store instance
+export const credentialStore = new CredentialStore({
+  dir: credentialStoreConfig.dir,
+  passphrase: credentialStoreConfig.passphrase,
+  keyFile: credentialStoreConfig.key_file,
+});
@@ -0,0 +1,141 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { HttpTransport } from './http-transport';
+
+const TOKEN = 's3cret';
+const authorized = { Authorization: `Bearer ${TOKEN}` };
+
+// Wait for something the server notices asynchronously (e.g. a closed stream)
+const eventually = async (check: () => boolean) => {
+  for (let attempt = 0; attempt < 50 && !check(); attempt++) {
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  return check();
+};
+
+describe('HttpTransport', () => {
+  let transport: HttpTransport;
+  let healthCheck: jest.Mock;
+  let baseUrl: string;
+  let clients: Client[];
+
+  const connect = async (clientTransport: Transport) => {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    clients.push(client);
+    await client.connect(clientTransport);
+    return client;
+  };
+
+  const streamable = () =>
+    new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`), { requestInit: { headers: authorized } });
+
+  beforeEach(async () => {
+    clients = [];
+    healthCheck = jest.fn().mockResolvedValue(true);
+    transport = new HttpTransport({
+      host: '127.0.0.1',
+      port: 0,
+      path: '/mcp',
+      authToken: TOKEN,
+      corsOrigins: ['https://app.example.com'],
+      createServer: () => new Server({ name: 'test-server', version: '1.0.0' }, { capabilities: {} }),
+      healthCheck,
+    });
+    const { port } = await transport.start();
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterEach(async () => {
+    await Promise.allSettled(clients.map((client) => client.close()));
+    await transport.stop();
+  });
+
+  it('should reject requests without the bearer token', async () => {
+    const missing = await fetch(`${baseUrl}/mcp`, { method: 'POST', body: '{}' });
+    const wrong = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { Authorization: 'Bearer wrong' },
+      body: '{}',
+    });
+
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get('www-authenticate')).toContain('Bearer');
+    expect(wrong.status).toBe(401);
+    expect(transport.getSessionCount()).toBe(0);
+  });
+
+  it('should only answer browser origins on the allowlist', async () => {
+    const refused = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { ...authorized, Origin: 'https://evil.example.com' },
+      body: '{}',
+    });
+    const preflight = await fetch(`${baseUrl}/mcp`, {
+      method: 'OPTIONS',
+      headers: { Origin: 'https://app.example.com' },
+    });
+
+    expect(refused.status).toBe(403);
+    expect(refused.headers.get('access-control-allow-origin')).toBeNull();
+    expect(preflight.status).toBe(204);
+    expect(preflight.headers.get('access-control-allow-origin')).toBe('https://app.example.com');
+  });
+
+  it('should report API health on /healthz without a token', async () => {
+    const healthy = await fetch(`${baseUrl}/healthz`);
+    expect(healthy.status).toBe(200);
+    await expect(healthy.json()).resolves.toEqual({ status: 'ok', api: 'ok', sessions: 0 });
+
+    healthCheck.mockResolvedValue(false);
+    const degraded = await fetch(`${baseUrl}/healthz`);
+    expect(degraded.status).toBe(503);
+    await expect(degraded.json()).resolves.toMatchObject({ status: 'degraded', api: 'unreachable' });
+  });
+
+  it('should route each Streamable HTTP session to its own server and drop it when ended', async () => {
+    const first = streamable();
+    const second = streamable();
+    await connect(first);
+    const client = await connect(second);
+
+    expect(transport.getSessionCount()).toBe(2);
+    expect(first.sessionId).not.toBe(second.sessionId);
+    await expect(client.ping()).resolves.toEqual({});
+
+    await first.terminateSession();
+    expect(await eventually(() => transport.getSessionCount() === 1)).toBe(true);
+
+    const stale = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { ...authorized, 'Content-Type': 'application/json', 'Mcp-Session-Id': first.sessionId as string },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' }),
+    });
+    expect(stale.status).toBe(404);
+  });
+
+  it('should only start a session with an initialize request', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { ...authorized, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' }),
+    });
+
+    expect(response.status).toBe(400);
+    expect(transport.getSessionCount()).toBe(0);
+  });
+
+  it('should fall back to the HTTP+SSE transport', async () => {
+    const client = await connect(
+      new SSEClientTransport(new URL(`${baseUrl}/mcp`), { requestInit: { headers: authorized } }),
+    );
+
+    expect(transport.getSessionCount()).toBe(1);
+    await expect(client.ping()).resolves.toEqual({});
+
+    await client.close();
+    expect(await eventually(() => transport.getSessionCount() === 0)).toBe(true);
+  });
+});
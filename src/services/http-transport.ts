@@ -0,0 +1,263 @@
+import { randomUUID } from "crypto";
+import { createServer, IncomingMessage, Server as HttpServer, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "../utils/logger";
+import { corsHeaders, isAuthorized, normalizePath } from "../utils/http";
+import { LinkLibraryError } from "../types";
+
+// HTTP transport configuration
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  path: string;
+  authToken?: string;
+  corsOrigins: string[];
+  // Creates the MCP server for a new session
+  createServer: () => Server;
+  healthCheck: () => Promise<boolean>;
+}
+
+interface HttpSession {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: Server;
+}
+
+// Largest JSON-RPC request body accepted
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+// HTTP transport class: serves MCP over Streamable HTTP at `path`, with the
+// older HTTP+SSE transport as a fallback (GET `path` without a session ID opens
+// an SSE stream, messages are POSTed to `path`/messages), plus GET /healthz
+export class HttpTransport {
+  private httpServer: HttpServer | null = null;
+  private sessions = new Map<string, HttpSession>();
+  private path: string;
+
+  constructor(private options: HttpTransportOptions) {
+    this.path = normalizePath(options.path);
+  }
+
+  // Start listening; resolves with the bound address
+  async start(): Promise<{ host: string; port: number }> {
+    const httpServer = createServer((req, res) => {
+      this.handle(req, res).catch((error) => this.fail(res, error));
+    });
+    this.httpServer = httpServer;
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once("error", reject);
+      httpServer.listen(this.options.port, this.options.host, () => {
+        httpServer.off("error", reject);
+        resolve();
+      });
+    });
+
+    const address = httpServer.address() as AddressInfo;
+    logger.info("HTTP transport listening", {
+      operation: "http_transport_start",
+      host: address.address,
+      port: address.port,
+      path: this.path,
+      auth: !!this.options.authToken,
+    });
+    return { host: address.address, port: address.port };
+  }
+
+  // Close every session and stop listening
+  async stop(): Promise<void> {
+    const sessions = Array.from(this.sessions.values());
+    this.sessions.clear();
+    await Promise.allSettled(sessions.map((session) => session.transport.close()));
+
+    const httpServer = this.httpServer;
+    this.httpServer = null;
+    if (httpServer) {
+      const closed = new Promise<void>((resolve) => httpServer.close(() => resolve()));
+      // The sessions are closed already; drop leftover keep-alive and stream connections
+      // instead of waiting for them to time out
+      httpServer.closeAllConnections();
+      await closed;
+    }
+  }
+
+  // Number of open MCP sessions
+  getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || "/", "http://localhost");
+
+    this.applyCors(req, res);
+    if (req.method === "OPTIONS") {
+      res.writeHead(204).end();
+      return;
+    }
+
+    if (url.pathname === "/healthz" && req.method === "GET") {
+      await this.handleHealth(res);
+      return;
+    }
+
+    if (!isAuthorized(req.headers.authorization, this.options.authToken)) {
+      res.setHeader("WWW-Authenticate", 'Bearer realm="linklibrary-mcp"');
+      throw new LinkLibraryError("Missing or invalid bearer token", 401);
+    }
+
+    if (url.pathname === this.path) {
+      await this.handleStreamable(req, res);
+    } else if (url.pathname === `${this.path}/messages` && req.method === "POST") {
+      await this.handleSseMessage(req, res, url.searchParams.get("sessionId"));
+    } else {
+      throw new LinkLibraryError(`Not found: ${url.pathname}`, 404);
+    }
+  }
+
+  // Set CORS headers, refusing browser origins that aren't allowed
+  private applyCors(req: IncomingMessage, res: ServerResponse): void {
+    const cors = corsHeaders(req.headers.origin, this.options.corsOrigins);
+    if (!cors) {
+      throw new LinkLibraryError(`Origin not allowed: ${req.headers.origin}`, 403);
+    }
+    for (const [name, value] of Object.entries(cors)) {
+      res.setHeader(name, value);
+    }
+  }
+
+  private async handleHealth(res: ServerResponse): Promise<void> {
+    const apiHealthy = await this.options.healthCheck();
+    this.sendJson(res, apiHealthy ? 200 : 503, {
+      status: apiHealthy ? "ok" : "degraded",
+      api: apiHealthy ? "ok" : "unreachable",
+      sessions: this.sessions.size,
+    });
+  }
+
+  // Streamable HTTP: POST messages, GET the notification stream, DELETE to end the session
+  private async handleStreamable(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionId = req.headers["mcp-session-id"];
+
+    if (typeof sessionId === "string") {
+      const session = this.sessions.get(sessionId);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        throw new LinkLibraryError("Unknown or expired session", 404);
+      }
+      const body = req.method === "POST" ? await this.readJson(req) : undefined;
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method === "GET") {
+      await this.openSseSession(res);
+      return;
+    }
+
+    if (req.method !== "POST") {
+      throw new LinkLibraryError("Missing Mcp-Session-Id header", 400);
+    }
+
+    const body = await this.readJson(req);
+    if (!isInitializeRequest(body)) {
+      throw new LinkLibraryError("Missing Mcp-Session-Id header; only initialize may start a session", 400);
+    }
+
+    const server = this.options.createServer();
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id: string) => this.addSession(id, { transport, server }),
+    });
+    transport.onclose = () => this.removeSession(transport.sessionId);
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  // Legacy HTTP+SSE: the stream stays open and messages arrive at `path`/messages
+  private async openSseSession(res: ServerResponse): Promise<void> {
+    const server = this.options.createServer();
+    const transport = new SSEServerTransport(`${this.path}/messages`, res);
+    this.addSession(transport.sessionId, { transport, server });
+    transport.onclose = () => this.removeSession(transport.sessionId);
+
+    await server.connect(transport);
+  }
+
+  private async handleSseMessage(
+    req: IncomingMessage,
+    res: ServerResponse,
+    sessionId: string | null,
+  ): Promise<void> {
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      throw new LinkLibraryError("Unknown or expired session", 404);
+    }
+
+    await session.transport.handlePostMessage(req, res, await this.readJson(req));
+  }
+
+  private addSession(id: string, session: HttpSession): void {
+    this.sessions.set(id, session);
+    logger.info("MCP session opened", {
+      operation: "http_session_open",
+      transport: session.transport instanceof SSEServerTransport ? "sse" : "streamable-http",
+      sessions: this.sessions.size,
+    });
+  }
+
+  private removeSession(id: string | undefined): void {
+    const session = id ? this.sessions.get(id) : undefined;
+    if (!id || !session) return;
+
+    this.sessions.delete(id);
+    session.server.close().catch(() => undefined);
+    logger.info("MCP session closed", {
+      operation: "http_session_close",
+      sessions: this.sessions.size,
+    });
+  }
+
+  private async readJson(req: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        throw new LinkLibraryError("Request body too large", 413);
+      }
+      chunks.push(chunk as Buffer);
+    }
+
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+    } catch {
+      throw new LinkLibraryError("Request body is not valid JSON", 400);
+    }
+  }
+
+  private sendJson(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { "Content-Type": "application/json" }).end(JSON.stringify(body));
+  }
+
+  // Report an error as a JSON-RPC error response (unless a response is already under way)
+  private fail(res: ServerResponse, error: unknown): void {
+    const status = error instanceof LinkLibraryError ? error.statusCode : 500;
+    const message = error instanceof Error ? error.message : "Internal server error";
+    if (status === 500) {
+      logger.error("HTTP transport request failed", { operation: "http_transport_error" }, error as Error);
+    }
+
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    this.sendJson(res, status, {
+      jsonrpc: "2.0",
+      error: { code: status === 500 ? -32603 : -32000, message },
+      id: null,
+    });
+  }
+}
@@ -0,0 +1,211 @@
+import { logger } from "../utils/logger";
+import type { MutationEvent } from "./api-client";
+import {
+  LibrarySnapshot,
+  SnapshotDiff,
+  applyMutation,
+  diffSnapshots,
+  parseMutationPath,
+  resourceKey,
+  resourceUri,
+} from "../utils/resource-diff";
+
+// Where change notifications are sent (the MCP server, in practice)
+export interface ResourceNotifier {
+  resourceUpdated(uri: string): Promise<void> | void;
+  resourceListChanged(): Promise<void> | void;
+}
+
+// Loads a fresh snapshot of the library, or null when it can't right now (e.g. not authenticated)
+export type SnapshotLoader = () => Promise<LibrarySnapshot | null>;
+
+// Told about changes a poll found, which were made outside this server (e.g. to drop stale cached responses)
+export type ExternalChangeHandler = (diff: SnapshotDiff) => void;
+
+// Resource watcher class: tracks resource subscriptions and turns library
+// changes into resources/updated and resources/list_changed notifications.
+// The library is only polled while something is subscribed.
+export class ResourceWatcher {
+  private subscriptions = new Map<string, Set<string>>();
+  private snapshot: LibrarySnapshot | null = null;
+  private loader: SnapshotLoader | null = null;
+  private notifier: ResourceNotifier | null = null;
+  private onExternalChange: ExternalChangeHandler | null = null;
+  private pollIntervalMs = 0;
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private polling = false;
+
+  // Connect the watcher to the library and to the notification channel
+  configure(loader: SnapshotLoader, notifier: ResourceNotifier, onExternalChange?: ExternalChangeHandler): void {
+    this.loader = loader;
+    this.notifier = notifier;
+    this.onExternalChange = onExternalChange || null;
+  }
+
+  // Start a subscription. Takes a baseline snapshot the first time so later polls can diff against it.
+  async subscribe(uri: string): Promise<void> {
+    const key = resourceKey(uri);
+    if (!key) {
+      throw new Error(`Not a linklibrary:// resource URI: ${uri}`);
+    }
+
+    const uris = this.subscriptions.get(key) || new Set<string>();
+    uris.add(uri);
+    this.subscriptions.set(key, uris);
+    this.schedulePolling();
+
+    if (!this.snapshot) {
+      await this.poll();
+    }
+  }
+
+  // End a subscription
+  unsubscribe(uri: string): void {
+    const key = resourceKey(uri);
+    const uris = key ? this.subscriptions.get(key) : undefined;
+    if (!key || !uris) return;
+
+    uris.delete(uri);
+    if (uris.size === 0) {
+      this.subscriptions.delete(key);
+    }
+
+    // Nothing left to report on: stop polling, and take a new baseline on the next subscribe
+    if (this.subscriptions.size === 0) {
+      this.stop();
+      this.snapshot = null;
+    }
+  }
+
+  // Get every subscribed URI
+  getSubscriptions(): string[] {
+    return Array.from(this.subscriptions.values()).flatMap((uris) => Array.from(uris));
+  }
+
+  // React to a write made through this server, without waiting for the next poll
+  handleMutation(event: MutationEvent): void {
+    const target = parseMutationPath(event.url);
+    if (!target) return;
+
+    const diff: SnapshotDiff = { updated: new Set(), listChanged: false };
+    const next = this.snapshot && applyMutation(this.snapshot, event.method, event.url, event.data);
+    if (this.snapshot && next) {
+      Object.assign(diff, diffSnapshots(this.snapshot, next));
+      this.snapshot = next;
+    } else {
+      // No baseline to compare with: report what the request itself says
+      diff.listChanged = event.method.toUpperCase() !== "PATCH" && event.method.toUpperCase() !== "PUT";
+    }
+
+    // The API may not bump updated_at for every edit, but we know this one changed
+    const id = target.id ?? (event.data as { id?: string | number } | null)?.id;
+    if (id !== undefined) {
+      const key = resourceKey(resourceUri(target.kind, id));
+      if (key) diff.updated.add(key);
+    }
+
+    this.emit(diff);
+  }
+
+  // Fetch a fresh snapshot and report anything that changed since the last one
+  async poll(): Promise<void> {
+    if (!this.loader || this.polling) return;
+
+    this.polling = true;
+    try {
+      const next = await this.loader();
+      // The last subscription may have ended while the library was loading
+      if (!next || this.subscriptions.size === 0) return;
+
+      if (this.snapshot) {
+        const diff = diffSnapshots(this.snapshot, next);
+        if (diff.updated.size > 0 || diff.listChanged) {
+          this.onExternalChange?.(diff);
+        }
+        this.emit(diff);
+      }
+      this.snapshot = next;
+    } catch (error) {
+      logger.warn("Resource change poll failed", {
+        operation: "resource_poll_failure",
+        reason: error instanceof Error ? error.message : "Unknown error",
+      });
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  // Poll for external changes on a fixed interval (0 disables polling) while anything is subscribed
+  start(intervalMs: number): void {
+    this.stop();
+    this.pollIntervalMs = intervalMs;
+    this.schedulePolling();
+  }
+
+  // Stop polling
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+
+      logger.info("Resource change polling stopped", {
+        operation: "resource_poll_stop",
+      });
+    }
+  }
+
+  // Whether the background poll is running
+  isPolling(): boolean {
+    return this.pollTimer !== null;
+  }
+
+  // Forget subscriptions and the baseline snapshot
+  reset(): void {
+    this.stop();
+    this.subscriptions.clear();
+    this.snapshot = null;
+  }
+
+  // Start the background poll, unless it is disabled, already running or there is nothing to watch
+  private schedulePolling(): void {
+    if (this.pollIntervalMs <= 0 || this.pollTimer || this.subscriptions.size === 0) return;
+
+    this.pollTimer = setInterval(() => {
+      void this.poll();
+    }, this.pollIntervalMs);
+    this.pollTimer.unref?.();
+
+    logger.info("Resource change polling started", {
+      operation: "resource_poll_start",
+      interval_ms: this.pollIntervalMs,
+    });
+  }
+
+  // Send notifications for a diff: updates only for subscribed resources, list changes always
+  private emit(diff: SnapshotDiff): void {
+    if (!this.notifier) return;
+
+    for (const key of diff.updated) {
+      for (const uri of this.subscriptions.get(key) || []) {
+        this.send(() => this.notifier?.resourceUpdated(uri));
+      }
+    }
+    if (diff.listChanged) {
+      this.send(() => this.notifier?.resourceListChanged());
+    }
+  }
+
+  private send(notify: () => Promise<void> | void | undefined): void {
+    Promise.resolve()
+      .then(notify)
+      .catch((error) => {
+        logger.warn("Failed to send resource notification", {
+          operation: "resource_notification_failure",
+          reason: error instanceof Error ? error.message : "Unknown error",
+        });
+      });
+  }
+}
+
+// Global resource watcher instance
+export const resourceWatcher = new ResourceWatcher();
@@ -0,0 +1,181 @@
+import { DEFAULT_ACCOUNT, getAccountProfiles, getActiveAccountName } from "../config";
+import { AccountProfile, ValidationError } from "../types";
+import { CacheNamespace } from "../utils/cache";
+import { logger } from "../utils/logger";
+import { AccountContext, AccountParts } from "./account-context";
+import { ApiClient } from "./api-client";
+import { AuthService } from "./auth-service";
+import { AuthBootstrapResult } from "./auth-bootstrap";
+import { ResourceWatcher } from "./resource-watcher";
+
+// The per-session state a session context can be built from (cache, api and
+// auth are used for the default account)
+export interface SessionParts {
+  cache: CacheNamespace;
+  api: ApiClient;
+  auth: AuthService;
+  watcher: ResourceWatcher;
+  // Save sign-ins to the credential store; only for the single-client stdio
+  // session, since over HTTP any client can call authenticate
+  persistTokens: boolean;
+}
+
+// A configured account as seen from one session
+export interface SessionAccount {
+  profile: AccountProfile;
+  active: boolean;
+  // Present once the session has used the account
+  context: AccountContext | null;
+}
+
+// Session context class: everything that belongs to one MCP session — a
+// context per account it uses (authentication, API client and cache
+// namespace), which account is active, and its resource subscriptions — so
+// that no state leaks between clients sharing one server process
+export class SessionContext {
+  readonly watcher: ResourceWatcher;
+  readonly createdAt = Date.now();
+  lastActiveAt = Date.now();
+
+  private accounts = new Map<string, AccountContext>();
+  private activeAccount: string;
+  private defaultAccountParts: Partial<AccountParts>;
+  private persistTokens: boolean;
+  private closeHandlers: Array<() => Promise<void> | void> = [];
+  private removeMutationListeners: Array<() => void> = [];
+  private disposed = false;
+
+  constructor(
+    readonly id: string,
+    parts: Partial<SessionParts> = {},
+    private profiles: Record<string, AccountProfile> = getAccountProfiles(),
+  ) {
+    this.watcher = parts.watcher || new ResourceWatcher();
+    this.defaultAccountParts = { cache: parts.cache, api: parts.api, auth: parts.auth };
+    this.persistTokens = parts.persistTokens || false;
+    this.activeAccount = getActiveAccountName();
+  }
+
+  // The active account's cache namespace, API client and authentication
+  get cache(): CacheNamespace {
+    return this.account().cache;
+  }
+
+  get api(): ApiClient {
+    return this.account().api;
+  }
+
+  get auth(): AuthService {
+    return this.account().auth;
+  }
+
+  // The context of a configured account (the active one by default), created on first use
+  account(name: string = this.activeAccount): AccountContext {
+    const existing = this.accounts.get(name);
+    if (existing) return existing;
+
+    const profile = this.profiles[name];
+    if (!profile) {
+      throw new ValidationError(
+        `Unknown account "${name}". Configured accounts: ${Object.keys(this.profiles).sort().join(", ")}`,
+      );
+    }
+
+    const context = new AccountContext(
+      profile,
+      `session:${this.id}:${name}`,
+      name === DEFAULT_ACCOUNT ? this.defaultAccountParts : {},
+      this.persistTokens,
+    );
+    this.accounts.set(name, context);
+
+    // Writes made through the active account are reported to this session's subscribers right away
+    this.removeMutationListeners.push(
+      context.api.onMutation((event) => {
+        if (this.activeAccount === name) {
+          this.watcher.handleMutation(event);
+        }
+      }),
+    );
+    return context;
+  }
+
+  getActiveAccountName(): string {
+    return this.activeAccount;
+  }
+
+  // Make another configured account the one tool calls use
+  switchAccount(name: string): AccountContext {
+    const context = this.account(name);
+    this.activeAccount = name;
+
+    logger.info("Account switched", {
+      operation: "account_switch",
+      session_id: this.id,
+      account: name,
+    });
+    return context;
+  }
+
+  // Every configured account, sorted by name
+  listAccounts(): SessionAccount[] {
+    return Object.keys(this.profiles)
+      .sort()
+      .map((name) => ({
+        profile: this.profiles[name],
+        active: name === this.activeAccount,
+        context: this.accounts.get(name) || null,
+      }));
+  }
+
+  // Sign the active account in with its configured credentials; only the first call tries them
+  bootstrapAuth(): Promise<AuthBootstrapResult> {
+    return this.account().bootstrapAuth();
+  }
+
+  // Record activity, postponing the idle timeout
+  touch(): void {
+    this.lastActiveAt = Date.now();
+  }
+
+  // Milliseconds since the last request
+  idleFor(now: number = Date.now()): number {
+    return now - this.lastActiveAt;
+  }
+
+  // Run a callback when the session ends (e.g. to close its MCP connection)
+  onClose(handler: () => Promise<void> | void): void {
+    this.closeHandlers.push(handler);
+  }
+
+  // End the session: close its connection, forget its credentials and drop its cached data
+  async dispose(): Promise<void> {
+    if (this.disposed) return;
+    this.disposed = true;
+
+    for (const handler of this.closeHandlers) {
+      try {
+        await handler();
+      } catch (error) {
+        logger.warn("Session close handler failed", {
+          operation: "session_close_failure",
+          session_id: this.id,
+          reason: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    }
+
+    this.removeMutationListeners.forEach((remove) => remove());
+    this.watcher.reset();
+    let cleared = 0;
+    for (const account of this.accounts.values()) {
+      cleared += account.dispose();
+    }
+
+    logger.info("Session disposed", {
+      operation: "session_dispose",
+      session_id: this.id,
+      cleared_cache_entries: cleared,
+    });
+  }
+}
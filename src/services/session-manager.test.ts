@@ -0,0 +1,121 @@
+import { AccountProfile, ValidationError } from '../types';
+import { globalCache } from '../utils/cache';
+import { apiClient } from './api-client';
+import { SessionContext } from './session-context';
+import { SessionManager } from './session-manager';
+
+const profiles: Record<string, AccountProfile> = {
+  default: { name: 'default', env_prefix: 'LL_', username: 'me@example.com' },
+  work: { name: 'work', env_prefix: 'LL_ACCOUNT_WORK_', username: 'me@work.example.com' },
+};
+
+describe('SessionManager', () => {
+  let manager: SessionManager;
+
+  beforeEach(() => {
+    manager = new SessionManager();
+    globalCache.clear();
+  });
+
+  afterEach(async () => {
+    await manager.endAll();
+  });
+
+  it('should give each session its own API client and cache namespace', () => {
+    const a = manager.create();
+    const b = manager.create();
+
+    a.cache.set('api:GET:/links', ['a']);
+
+    expect(a.api).not.toBe(b.api);
+    expect(a.auth).not.toBe(b.auth);
+    expect(b.cache.get('api:GET:/links')).toBeNull();
+    expect(a.cache.get('api:GET:/links')).toEqual(['a']);
+  });
+
+  it('should only invalidate entries in the session namespace', () => {
+    const a = manager.create();
+    const b = manager.create();
+    a.cache.set('api:GET:/links?skip=0', 1);
+    b.cache.set('api:GET:/links?skip=0', 2);
+
+    expect(a.cache.invalidatePattern('api:GET:/links')).toBe(1);
+    expect(b.cache.get('api:GET:/links?skip=0')).toBe(2);
+  });
+
+  it('should resolve the current context inside run and fall back to the default', async () => {
+    const session = manager.create();
+
+    const seen = await manager.run(session, async () => {
+      await Promise.resolve();
+      return manager.current();
+    });
+
+    expect(seen).toBe(session);
+    expect(manager.current()).toBe(manager.getDefault());
+    expect(manager.getDefault().api).toBe(apiClient);
+  });
+
+  it('should end idle sessions, run close handlers and drop their cache', async () => {
+    const idle = manager.create();
+    const active = manager.create();
+    const onClose = jest.fn();
+    idle.onClose(onClose);
+    idle.cache.set('stats:week', { total: 1 });
+
+    idle.lastActiveAt = Date.now() - 120000;
+    const expired = await manager.sweep(60000);
+
+    expect(expired).toEqual([idle.id]);
+    expect(onClose).toHaveBeenCalledTimes(1);
+    expect(manager.get(idle.id)).toBeUndefined();
+    expect(manager.get(active.id)).toBe(active);
+    expect(globalCache.keys().some((key) => key.includes(idle.id))).toBe(false);
+  });
+
+  describe('accounts', () => {
+    it('should keep each account in its own cache namespace', () => {
+      const session = new SessionContext('multi', {}, profiles);
+
+      session.account('default').cache.set('api:GET:/links', ['personal']);
+
+      expect(session.account('work').cache.get('api:GET:/links')).toBeNull();
+      expect(session.account('work').api).not.toBe(session.account('default').api);
+      expect(session.cache.get('api:GET:/links')).toEqual(['personal']);
+    });
+
+    it('should switch the active account and list every configured one', () => {
+      const session = new SessionContext('multi', {}, profiles);
+
+      session.switchAccount('work');
+
+      expect(session.getActiveAccountName()).toBe('work');
+      expect(session.auth).toBe(session.account('work').auth);
+      expect(session.listAccounts().map(({ profile, active }) => [profile.name, active])).toEqual([
+        ['default', false],
+        ['work', true],
+      ]);
+    });
+
+    it('should reject an account that is not configured', () => {
+      const session = new SessionContext('multi', {}, profiles);
+
+      expect(() => session.switchAccount('home')).toThrow(ValidationError);
+      expect(session.getActiveAccountName()).toBe('default');
+    });
+
+    it('should run a single request against another account without switching', async () => {
+      const session = new SessionContext('multi', {}, profiles);
+
+      const used = await manager.run(session, async () => {
+        manager.useAccount('work');
+        await Promise.resolve();
+        return manager.currentAccount();
+      });
+
+      expect(used).toBe(session.account('work'));
+      expect(session.getActiveAccountName()).toBe('default');
+      await session.dispose();
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { randomUUID } from "crypto";
+import { defaultCacheNamespace } from "../utils/cache";
+import { logger } from "../utils/logger";
+import { apiClient } from "./api-client";
+import { authService } from "./auth-service";
+import { resourceWatcher } from "./resource-watcher";
+import { AccountContext } from "./account-context";
+import { SessionContext } from "./session-context";
+
+// What the request being handled runs against
+interface RequestScope {
+  context: SessionContext;
+  // Set when a tool call names an account other than the active one
+  account?: string;
+}
+
+// Session manager class: creates a context per MCP session, makes it the
+// current context while that session's requests run, and ends sessions that
+// have been idle too long
+export class SessionManager {
+  private sessions = new Map<string, SessionContext>();
+  private storage = new AsyncLocalStorage<RequestScope>();
+  private defaultContext: SessionContext | null = null;
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
+
+  // The context of a single-client (stdio) server, built on the global instances
+  getDefault(): SessionContext {
+    if (!this.defaultContext) {
+      this.defaultContext = new SessionContext("default", {
+        cache: defaultCacheNamespace,
+        api: apiClient,
+        auth: authService,
+        watcher: resourceWatcher,
+        persistTokens: true,
+      });
+    }
+    return this.defaultContext;
+  }
+
+  // Start a new session with its own auth state, API client and cache namespace
+  create(): SessionContext {
+    const context = new SessionContext(randomUUID());
+    this.sessions.set(context.id, context);
+
+    logger.info("Session created", {
+      operation: "session_create",
+      session_id: context.id,
+      sessions: this.sessions.size,
+    });
+    return context;
+  }
+
+  get(id: string): SessionContext | undefined {
+    return this.sessions.get(id);
+  }
+
+  // Run a callback with the given context as the current one
+  run<T>(context: SessionContext, callback: () => T): T {
+    context.touch();
+    return this.storage.run({ context }, callback);
+  }
+
+  // The context of the request being handled (the default context outside any session)
+  current(): SessionContext {
+    return this.storage.getStore()?.context || this.getDefault();
+  }
+
+  // Run the rest of the request being handled against another configured account
+  useAccount(name: string): AccountContext {
+    const scope = this.storage.getStore();
+    if (!scope) {
+      throw new Error("An account can only be chosen while handling a request");
+    }
+
+    const account = scope.context.account(name);
+    scope.account = name;
+    return account;
+  }
+
+  // The account the request being handled runs against (the session's active one unless it chose another)
+  currentAccount(): AccountContext {
+    const scope = this.storage.getStore();
+    return (scope?.context || this.getDefault()).account(scope?.account);
+  }
+
+  // End a session and release everything it holds
+  async end(id: string): Promise<void> {
+    const context = this.sessions.get(id);
+    if (!context) return;
+
+    this.sessions.delete(id);
+    await context.dispose();
+  }
+
+  // End every session idle for longer than the timeout
+  async sweep(idleTimeoutMs: number, now: number = Date.now()): Promise<string[]> {
+    const expired = Array.from(this.sessions.values())
+      .filter((context) => context.idleFor(now) > idleTimeoutMs)
+      .map((context) => context.id);
+
+    for (const id of expired) {
+      logger.info("Session expired after inactivity", {
+        operation: "session_expire",
+        session_id: id,
+        idle_timeout_ms: idleTimeoutMs,
+      });
+      await this.end(id);
+    }
+    return expired;
+  }
+
+  // Check for idle sessions periodically (0 disables the timeout)
+  start(idleTimeoutMs: number): void {
+    this.stop();
+    if (idleTimeoutMs <= 0) return;
+
+    this.sweepTimer = setInterval(
+      () => {
+        void this.sweep(idleTimeoutMs);
+      },
+      Math.min(idleTimeoutMs, 60000),
+    );
+    this.sweepTimer.unref?.();
+  }
+
+  // Stop checking for idle sessions
+  stop(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+
+  // End every session
+  async endAll(): Promise<void> {
+    this.stop();
+    await Promise.all(Array.from(this.sessions.keys(), (id) => this.end(id)));
+  }
+
+  getSessionCount(): number {
+    return this.sessions.size;
+  }
+}
+
+// Global session manager instance
+export const sessionManager = new SessionManager();
@@ -0,0 +1,102 @@
+import { AuthenticationError } from '../types';
+import { AuthService } from './auth-service';
+import { TokenRefresher } from './token-refresher';
+
+const fakeAuth = (refreshed: boolean) =>
+  ({
+    refreshToken: jest.fn().mockResolvedValue(refreshed),
+    authenticate: jest.fn().mockResolvedValue({ id: 'user-1', email: 'me@example.com' }),
+  }) as unknown as jest.Mocked<AuthService>;
+
+describe('TokenRefresher', () => {
+  it('should refresh the token when possible', async () => {
+    const auth = fakeAuth(true);
+    const refresher = new TokenRefresher(auth);
+    refresher.rememberCredentials('me@example.com', 'pw');
+
+    await expect(refresher.recover()).resolves.toBe(true);
+    expect(auth.authenticate).not.toHaveBeenCalled();
+  });
+
+  it('should sign in again with the remembered credentials when refresh fails', async () => {
+    const auth = fakeAuth(false);
+    const refresher = new TokenRefresher(auth);
+    refresher.rememberCredentials('me@example.com', 'pw');
+
+    await expect(refresher.recover()).resolves.toBe(true);
+    expect(auth.authenticate).toHaveBeenCalledWith('me@example.com', 'pw');
+  });
+
+  it('should fall back to the configured credentials when none were remembered', async () => {
+    const auth = fakeAuth(false);
+    const refresher = new TokenRefresher(auth);
+
+    await expect(refresher.recover()).resolves.toBe(true);
+    expect(auth.authenticate).toHaveBeenCalledWith(undefined, undefined);
+  });
+
+  it('should give up when the login is rejected', async () => {
+    const auth = fakeAuth(false);
+    const refresher = new TokenRefresher(auth);
+    auth.authenticate.mockRejectedValue(new AuthenticationError('Invalid credentials'));
+
+    refresher.rememberCredentials('me@example.com', 'old');
+    await expect(refresher.recover()).resolves.toBe(false);
+
+    refresher.forgetCredentials();
+    auth.authenticate.mockRejectedValue(new AuthenticationError('Username and password are required'));
+    await expect(refresher.recover()).resolves.toBe(false);
+  });
+
+  it('should share one attempt between concurrent callers', async () => {
+    const auth = fakeAuth(true);
+    const refresher = new TokenRefresher(auth);
+
+    const results = await Promise.all([refresher.recover(), refresher.recover(), refresher.recover()]);
+
+    expect(results).toEqual([true, true, true]);
+    expect(auth.refreshToken).toHaveBeenCalledTimes(1);
+  });
+
+  it('should replace the scheduled refresh when a new token arrives', () => {
+    jest.useFakeTimers();
+    try {
+      const auth = fakeAuth(true);
+      const refresher = new TokenRefresher(auth);
+
+      refresher.schedule('opaque-token');
+      refresher.schedule('opaque-token');
+      jest.advanceTimersByTime(55 * 60 * 1000);
+      expect(auth.refreshToken).toHaveBeenCalledTimes(1);
+
+      refresher.schedule('opaque-token');
+      refresher.cancel();
+      jest.advanceTimersByTime(55 * 60 * 1000);
+      expect(auth.refreshToken).toHaveBeenCalledTimes(1);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should report when the token expires and when it will be refreshed', () => {
+    jest.useFakeTimers({ now: Date.UTC(2024, 0, 1, 12, 0, 0) });
+    try {
+      const refresher = new TokenRefresher(fakeAuth(true));
+      const exp = Date.UTC(2024, 0, 1, 13, 0, 0) / 1000;
+      const token = ['{"alg":"HS256"}', JSON.stringify({ exp }), 'signature']
+        .map((part, i) => (i < 2 ? Buffer.from(part).toString('base64url') : part))
+        .join('.');
+
+      refresher.schedule(token);
+      expect(refresher.getSchedule()).toEqual({
+        expiresAt: new Date('2024-01-01T13:00:00Z'),
+        refreshAt: new Date('2024-01-01T12:55:00Z'),
+      });
+
+      refresher.cancel();
+      expect(refresher.getSchedule()).toEqual({ expiresAt: null, refreshAt: null });
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,123 @@
+import { LinkLibraryUser } from "../types";
+import { logger } from "../utils/logger";
+import { getRefreshDelay, getTokenExpiry } from "../utils/jwt";
+import type { AuthService } from "./auth-service";
+
+interface LoginCredentials {
+  username: string;
+  password: string;
+}
+
+// Called with every token the API has accepted (logins, refreshes and resumed tokens)
+export type TokenListener = (token: string, user: LinkLibraryUser) => void;
+
+// Token refresher class: keeps a session's token alive by refreshing it shortly
+// before its exp claim and, when refresh fails, signing in again with the last
+// credentials that worked or else the account's configured ones
+export class TokenRefresher {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private expiresAt: Date | null = null;
+  private refreshAt: Date | null = null;
+  private credentials: LoginCredentials | null = null;
+  private recovery: Promise<boolean> | null = null;
+  private listeners: TokenListener[] = [];
+
+  constructor(private auth: AuthService) {}
+
+  // Register a token listener; returns a function that removes it
+  onToken(listener: TokenListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((existing) => existing !== listener);
+    };
+  }
+
+  // A token was accepted for a user: schedule its refresh and tell the listeners
+  accepted(token: string, user: LinkLibraryUser): void {
+    this.schedule(token);
+
+    for (const listener of this.listeners) {
+      try {
+        listener(token, user);
+      } catch (error) {
+        logger.warn("Token listener failed", {
+          operation: "token_listener_failure",
+          reason: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    }
+  }
+
+  // Schedule the refresh for a newly issued token, replacing any earlier schedule
+  schedule(token: string): void {
+    this.cancel();
+
+    const delay = getRefreshDelay(token);
+    this.timer = setTimeout(() => void this.recover(), delay);
+    // A pending refresh should not keep the process alive
+    this.timer.unref?.();
+    this.expiresAt = getTokenExpiry(token);
+    this.refreshAt = new Date(Date.now() + delay);
+
+    logger.debug("Token refresh scheduled", {
+      operation: "token_refresh_scheduled",
+      delay_ms: delay,
+      expires_at: this.expiresAt?.toISOString(),
+    });
+  }
+
+  // Stop the scheduled refresh
+  cancel(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.expiresAt = null;
+    this.refreshAt = null;
+  }
+
+  // When the current token expires (null without an exp claim) and when it will be refreshed
+  getSchedule(): { expiresAt: Date | null; refreshAt: Date | null } {
+    return { expiresAt: this.expiresAt, refreshAt: this.refreshAt };
+  }
+
+  // Remember the credentials of a successful login, for signing in again later
+  rememberCredentials(username: string, password: string): void {
+    this.credentials = { username, password };
+  }
+
+  forgetCredentials(): void {
+    this.credentials = null;
+  }
+
+  // Get a working token again; concurrent callers share a single attempt
+  recover(): Promise<boolean> {
+    this.recovery =
+      this.recovery ||
+      this.refreshOrLogin().finally(() => {
+        this.recovery = null;
+      });
+    return this.recovery;
+  }
+
+  // Without remembered credentials (the session started from a token),
+  // authenticate falls back to the account's configured password sources
+  private async refreshOrLogin(): Promise<boolean> {
+    const credentials = this.credentials;
+    if (await this.auth.refreshToken()) {
+      return true;
+    }
+
+    try {
+      const user = await this.auth.authenticate(credentials?.username, credentials?.password);
+      logger.info("Signed in again after token refresh failed", {
+        operation: "token_refresh_relogin",
+        email: user.email,
+        configured_credentials: !credentials,
+      });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,23 @@
+import Ajv from 'ajv';
+import { ToolSchema } from '@modelcontextprotocol/sdk/types.js';
+import { toolParams } from './tool-params';
+import { toInputSchema } from './utils/params';
+
+describe('Tool parameters', () => {
+  const ajv = new Ajv();
+
+  it('should be valid tool inputSchema declarations', () => {
+    for (const [name, params] of Object.entries(toolParams)) {
+      const inputSchema = toInputSchema(params);
+      const result = ToolSchema.safeParse({ name, inputSchema });
+      expect(result.success).toBe(true);
+      expect(() => ajv.compile(inputSchema)).not.toThrow();
+    }
+  });
+
+  it('should apply the documented limits', () => {
+    expect(toolParams.get_links.limit).toMatchObject({ minimum: 1, maximum: 100 });
+    expect(toolParams.search_advanced.operator.enum).toEqual(['AND', 'OR']);
+    expect(toolParams.get_user_stats.period.enum).toEqual(['day', 'week', 'month', 'year']);
+  });
+});
@@ -0,0 +1,582 @@
+import { ParamDefinition, ParamDefinitions } from './utils/params';
+import { STATS_PERIODS } from './utils/stats';
+
+// The parameters of each tool, defined once: server.ts advertises them as the
+// tool's inputSchema and checks every call's arguments against them.
+
+// Shared input property letting every tool pick how its text result is laid out
+const outputStyleProperty: ParamDefinition = {
+  type: 'string',
+  description: 'Text layout for the result: detailed, plain (no emoji), compact, markdown-table, or a custom style from OUTPUT_TEMPLATES_FILE. Defaults to OUTPUT_STYLE.',
+};
+
+// Shared input property letting every tool run a single call against another account
+const accountProperty: ParamDefinition = {
+  type: 'string',
+  description: 'Configured account (see list_accounts) to run this call against instead of the active one',
+};
+
+export const toolParams: Record<string, ParamDefinitions> = {
+  authenticate: {
+    username: {
+      type: 'string',
+      required: true,
+      description: 'Your LinkLibrary email or username',
+    },
+    password: {
+      type: 'string',
+      required: true,
+      description: 'Your LinkLibrary password',
+    },
+    output_style: outputStyleProperty,
+    account: accountProperty,
+  },
+
+  list_accounts: {
+    output_style: outputStyleProperty,
+  },
+
+  switch_account: {
+    account: {
+      type: 'string',
+      required: true,
+      description: 'Name of the account to switch to (see list_accounts)',
+    },
+    output_style: outputStyleProperty,
+  },
+
+  whoami: {
+    output_style: outputStyleProperty,
+    account: accountProperty,
+  },
+
+  logout: {
+    output_style: outputStyleProperty,
+    account: accountProperty,
+  },
+
+  get_links: {
+    limit: {
+      type: 'integer',
+      description: 'Number of links to return (default: 50, max: 100)',
+      default: 50,
+      minimum: 1,
+      maximum: 100,
+    },
+    all: {
+      type: 'boolean',
+      description: 'Fetch every matching link across all pages (ignores limit and skip, capped by PAGINATION_MAX_ITEMS)',
+      default: false,
+    },
+    skip: {
+      type: 'integer',
+      description: 'Number of links to skip for pagination',
+      default: 0,
+      minimum: 0,
+    },
+    collection_id: {
+      type: 'integer',
+      description: 'Filter by collection ID',
+    },
+    collection: {
+      type: 'string',
+      description: 'Collection name (case-insensitive, fuzzy matched) instead of collection_id',
+    },
+    tag_ids: {
+      type: 'array',
+      items: { type: 'integer' },
+      description: 'Filter by tag IDs',
+    },
+    tags: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Tag names (case-insensitive, fuzzy matched) instead of tag_ids',
+    },
+    search: {
+      type: 'string',
+      description: 'Search query for title, summary, or notes',
+    },
+    is_favorite: {
+      type: 'boolean',
+      description: 'Filter by favorite status',
+    },
+    sort_by: {
+      type: 'string',
+      description: 'Sort field',
+      default: 'created_at',
+    },
+    sort_desc: {
+      type: 'boolean',
+      description: 'Sort in descending order',
+      default: true,
+    },
+    output_style: outputStyleProperty,
+    account: accountProperty,
+  },
+
+  get_link: {
+    link_id: {
+      type: 'string',
+      required: true,
+      description: 'ID of the bookmark',
+    },
+    output_style: outputStyleProperty,
+    account: accountProperty,
+  },
+
+  create_link: {
+    url: {
+      type: 'string',
+      required: true,
+      description: 'The URL to bookmark',
+    },
+    title: {
+      type: 'string',
+      required: true,
+      description: 'Title for the bookmark',
+    },
+    summary: {
+      type: 'string',
+      description: 'Summary/description',
+    },
+    notes: {
+      type: 'string',
+      description: 'Additional notes',
+    },
+    collection_id: {
+      type: 'integer',
+      description: 'Collection to add to',
+    },
+    collection: {
+      type: 'string',
+      description: 'Exact collection name (case- and separator-insensitive) instead of collection_id',
+    },
+    tag_ids: {
+      type: 'array',
+      items: { type: 'integer' },
+      description: 'Tags to apply',
+    },
+    tags: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Exact tag names (case- and separator-insensitive) instead of tag_ids',
+    },
+    create_missing_tags: {
+      type: 'boolean',
+      description: 'Create any tag in tags that does not exist yet instead of failing',
+      default: false,
+    },
+    is_favorite: {
+      type: 'boolean',
+      description: 'Mark as favorite',
+      default: false,
+    },
+    on_duplicate: {
+      type: 'string',
+      enum: ['skip', 'update', 'create'],
+      description: 'What to do when the same page is already saved (ignoring tracking parameters, http/https, www. and trailing slashes)',
+      default: 'skip',
+    },
+    output_style: outputStyleProperty,
+    account: accountProperty,
+  },
+
+  update_link: {
+    link_id: {
+      type: 'string',
+      required: true,
+      description: 'ID of the bookmark to update',
+    },
+    url: {
+      type: 'string',
+      description: 'New URL',
+    },
+    title: {
+      type: 'string',
+      description: 'New title',
+    },
+    summary: {
+      type: 'string',
+      description: 'New summary/description',
+    },
+    notes: {
+      type: 'string',
+      description: 'New notes',
+    },
+    collection_id: {
+      type: 'integer',
+      description: 'Move to this collection',
+    },
+    collection: {
+      type: 'string',
+      description: 'Exact collection name (case- and separator-insensitive) instead of collection_id',
+    },
+    tag_ids: {
+      type: 'array',
+      items: { type: 'integer' },
+      description: 'Replace the tags with these tag IDs',
+    },
+    tags: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Exact tag names (case- and separator-insensitive) instead of tag_ids',
+    },
+    is_favorite: {
+      type: 'boolean',
+      description: 'New favorite status',
+    },
+    output_style: outputStyleProperty,
+    account: accountProperty,
+  },
+
+  delete_link: {
+    link_id: {
+      type: 'string',
+      description: 'ID of the bookmark to delete',
+    },
+    link_ids: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'IDs of several bookmarks to delete',
+    },
+    dry_run: {
+      type: 'boolean',
+      description: 'Only show the bookmarks that would be deleted',
+      default: false,
+    },
+    output_style: outputStyleProperty,
+    account: accountProperty,
+  },
+
+  archive_link: {
+    link_id: {
+      type: 'string',
+      description: 'ID of the bookmark to archive',
+    },
+    link_ids: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'IDs of several bookmarks to archive',
+    },
+    dry_run: {
+      type: 'boolean',
+      description: 'Only show the bookmarks that would be archived',
+      default: false,
+    },
+    output_style: outputStyleProperty,
+    account: accountProperty,
+  },
+
+  links_parse: {
+    text: {
+      type: 'string',
+      required: true,
+      description: 'Text containing URLs (plain, markdown links or <angle-bracket> form)',
+    },
+    create: {
+      type: 'boolean',
+      description: 'Create bookmarks for URLs not already in the library',
+      default: false,
+    },
+    collection_id: {
+      type: 'integer',
+      description: 'Collection to add created bookmarks to',
+    },
+    collection: {
+      type: 'string',
+      description: 'Exact collection name (case- and separator-insensitive) instead of collection_id',
+    },
+    tag_ids: {
+      type: 'array',
+      items: { type: 'integer' },
+      description: 'Tags to apply to every created bookmark',
+    },
+    tags: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Exact tag names (case- and separator-insensitive) instead of tag_ids',
+    },
+    is_favorite: {
+      type: 'boolean',
+      description: 'Mark created bookmarks as favorites',
+      default: false,
+    },
+    output_style: outputStyleProperty,
+    account: accountProperty,
+  },
+
+  bulk_update_links: {
+    link_ids: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Explicit IDs of the links to update',
+    },
+    filter: {
+      type: 'object',
+      description: 'Select links like get_links (collection_id/collection, tag_ids/tags, search, is_favorite) or search_advanced (query, operator, collection_ids/collections, tag_ids/tags)',
+      properties: {
+        collection_id: { type: 'integer' },
+        collection: { type: 'string' },
+        tag_ids: { type: 'array', items: { type: 'integer' } },
+        tags: { type: 'array', items: { type: 'string' } },
+        search: { type: 'string' },
+        is_favorite: { type: 'boolean' },
+        query: { type: 'string' },
+        operator: { type: 'string', enum: ['AND', 'OR'] },
+        collection_ids: { type: 'array', items: { type: 'integer' } },
+        collections: { type: 'array', items: { type: 'string' } },
+      },
+    },
+    operation: {
+      type: 'string',
+      required: true,
+      enum: ['move', 'add_tags', 'remove_tags', 'set_favorite', 'clear_favorite'],
+      description: 'Operation to apply to every matching link',
+    },
+    collection_id: {
+      type: 'integer',
+      description: 'Target collection for the move operation',
+    },
+    collection: {
+      type: 'string',
+      description: 'Exact collection name (case- and separator-insensitive) instead of collection_id',
+    },
+    tag_ids: {
+      type: 'array',
+      items: { type: 'integer' },
+      description: 'Tags for the add_tags and remove_tags operations',
+    },
+    tags: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Exact tag names (case- and separator-insensitive) instead of tag_ids',
+    },
+    output_style: outputStyleProperty,
+    account: accountProperty,
+  },
+
+  get_collections: {
+    include_default: {
+      type: 'boolean',
+      description: 'Include default collections',
+      default: true,
+    },
+    output_style: outputStyleProperty,
+    account: accountProperty,
+  },
+
+  create_collection: {
+    name: {
+      type: 'string',
+      required: true,
+      description: 'Collection name',
+    },
+    description: {
+      type: 'string',
+      description: 'Collection description',
+    },
+    color: {
+      type: 'string',
+      description: 'Color theme',
+    },
+    icon: {
+      type: 'string',
+      description: 'Icon identifier',
+    },
+    output_style: outputStyleProperty,
+    account: accountProperty,
+  },
+
+  update_collection: {
+    collection_id: {
+      type: 'integer',
+      description: 'ID of the collection to update',
+    },
+    collection: {
+      type: 'string',
+      description: 'Exact collection name (case- and separator-insensitive) instead of collection_id',
+    },
+    name: {
+      type: 'string',
+      description: 'New name',
+    },
+    description: {
+      type: 'string',
+      description: 'New description',
+    },
+    color: {
+      type: 'string',
+      description: 'New color',
+    },
+    icon: {
+      type: 'string',
+      description: 'New icon',
+    },
+    output_style: outputStyleProperty,
+    account: accountProperty,
+  },
+
+  delete_collection: {
+    collection_id: {
+      type: 'integer',
+      description: 'ID of the collection to delete',
+    },
+    collection: {
+      type: 'string',
+      description: 'Exact collection name (case- and separator-insensitive) instead of collection_id',
+    },
+    move_links_to: {
+      type: 'integer',
+      description: 'Move the collection\'s links to this collection before deleting',
+    },
+    move_links_to_collection: {
+      type: 'string',
+      description: 'Exact name (case- and separator-insensitive) of the collection to move the links to, instead of move_links_to',
+    },
+    confirm: {
+      type: 'boolean',
+      description: 'Delete even though the collection still has links and no move target was given',
+      default: false,
+    },
+    output_style: outputStyleProperty,
+    account: accountProperty,
+  },
+
+  get_tags: {
+    include_counts: {
+      type: 'boolean',
+      description: 'Include link counts',
+      default: true,
+    },
+    output_style: outputStyleProperty,
+    account: accountProperty,
+  },
+
+  create_tag: {
+    name: {
+      type: 'string',
+      required: true,
+      description: 'Tag name',
+    },
+    color: {
+      type: 'string',
+      description: 'Tag color',
+    },
+    output_style: outputStyleProperty,
+    account: accountProperty,
+  },
+
+  update_tag: {
+    tag_id: {
+      type: 'integer',
+      description: 'ID of the tag to update',
+    },
+    tag: {
+      type: 'string',
+      description: 'Exact tag name (case- and separator-insensitive) instead of tag_id',
+    },
+    name: {
+      type: 'string',
+      description: 'New name',
+    },
+    color: {
+      type: 'string',
+      description: 'New color',
+    },
+    output_style: outputStyleProperty,
+    account: accountProperty,
+  },
+
+  delete_tag: {
+    tag_id: {
+      type: 'integer',
+      description: 'ID of the tag to delete',
+    },
+    tag: {
+      type: 'string',
+      description: 'Exact tag name (case- and separator-insensitive) instead of tag_id',
+    },
+    confirm: {
+      type: 'boolean',
+      description: 'Confirm deletion of a tag that is still applied to links',
+      default: false,
+    },
+    output_style: outputStyleProperty,
+    account: accountProperty,
+  },
+
+  merge_tags: {
+    source_tags: {
+      type: 'array',
+      required: true,
+      items: { type: ['integer', 'string'] },
+      description: 'IDs or exact names (case- and separator-insensitive) of the tags to merge away',
+    },
+    target_tag: {
+      type: ['integer', 'string'],
+      required: true,
+      description: 'ID or exact name (case- and separator-insensitive) of the tag to keep',
+    },
+    dry_run: {
+      type: 'boolean',
+      description: 'Only list the links that would change',
+      default: false,
+    },
+    output_style: outputStyleProperty,
+    account: accountProperty,
+  },
+
+  search_advanced: {
+    query: {
+      type: 'string',
+      required: true,
+      description: 'Search query',
+    },
+    operator: {
+      type: 'string',
+      description: 'Search operator - "AND" or "OR"',
+      enum: ['AND', 'OR'],
+      default: 'OR',
+    },
+    collection_ids: {
+      type: 'array',
+      items: { type: 'integer' },
+      description: 'Filter by collections',
+    },
+    collections: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Collection names (case-insensitive, fuzzy matched) instead of collection_ids',
+    },
+    tag_ids: {
+      type: 'array',
+      items: { type: 'integer' },
+      description: 'Filter by tags',
+    },
+    tags: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Tag names (case-insensitive, fuzzy matched) instead of tag_ids',
+    },
+    limit: {
+      type: 'integer',
+      description: 'Number of results (default: 50, max: 100)',
+      default: 50,
+      minimum: 1,
+      maximum: 100,
+    },
+    output_style: outputStyleProperty,
+    account: accountProperty,
+  },
+
+  get_user_stats: {
+    period: {
+      type: 'string',
+      description: 'Time period - "day", "week", "month", "year"',
+      enum: STATS_PERIODS,
+      default: 'month',
+    },
+    output_style: outputStyleProperty,
+    account: accountProperty,
+  },
+};
@@ -15,6 +15,7 @@ export interface LinkLibraryLink {
   summary?: string;
   notes?: string;
   is_favorite: boolean;
+  is_archived?: boolean;
   collection_id?: number;
   tag_ids?: number[];
   content_type?: string;
@@ -89,7 +90,23 @@ export interface LinkLibraryAuthResponse {
   user: LinkLibraryUser;
 }
 
-export interface LinkLibraryError {
+// How the current token was obtained: the configured token, a token saved in
+// the credential store, or a password login
+export type AuthMethod = 'env_token' | 'persisted_token' | 'password';
+
+export interface AuthStatus {
+  isAuthenticated: boolean;
+  userId: string | null;
+  userEmail: string | null;
+  userDisplayName: string | null;
+  method: AuthMethod | null;
+  tokenExpiresAt: Date | null;
+  // When the token is next refreshed (null when nothing is scheduled)
+  refreshAt: Date | null;
+}
+
+// Error body returned by the API
+export interface LinkLibraryErrorResponse {
   error: string;
   message: string;
   status_code: number;
@@ -104,8 +121,11 @@ export interface AuthenticateParams {
 export interface GetLinksParams {
   limit?: number;
   skip?: number;
+  all?: boolean;
   collection_id?: number;
+  collection?: string;
   tag_ids?: number[];
+  tags?: string[];
   search?: string;
   is_favorite?: boolean;
   sort_by?: string;
@@ -118,7 +138,40 @@ export interface CreateLinkParams {
   summary?: string;
   notes?: string;
   collection_id?: number;
+  collection?: string;
   tag_ids?: number[];
+  tags?: string[];
+  create_missing_tags?: boolean;
+  is_favorite?: boolean;
+  on_duplicate?: 'skip' | 'update' | 'create';
+}
+
+export interface UpdateLinkParams
+  extends Partial<Omit<CreateLinkParams, 'on_duplicate' | 'create_missing_tags'>> {
+  link_id: string;
+}
+
+export interface GetLinkParams {
+  link_id: string;
+}
+
+export interface LinkSelectionParams {
+  link_id?: string;
+  link_ids?: string[];
+  dry_run?: boolean;
+}
+
+export type DeleteLinkParams = LinkSelectionParams;
+
+export type ArchiveLinkParams = LinkSelectionParams;
+
+export interface LinksParseParams {
+  text: string;
+  create?: boolean;
+  collection_id?: number;
+  collection?: string;
+  tag_ids?: number[];
+  tags?: string[];
   is_favorite?: boolean;
 }
 
@@ -126,15 +179,89 @@ export interface GetCollectionsParams {
   include_default?: boolean;
 }
 
+export interface CreateCollectionParams {
+  name: string;
+  description?: string;
+  color?: string;
+  icon?: string;
+}
+
+export interface UpdateCollectionParams extends Partial<CreateCollectionParams> {
+  collection_id?: number;
+  collection?: string;
+}
+
+export interface DeleteCollectionParams {
+  collection_id?: number;
+  collection?: string;
+  move_links_to?: number;
+  move_links_to_collection?: string;
+  confirm?: boolean;
+}
+
 export interface GetTagsParams {
   include_counts?: boolean;
 }
 
+export interface CreateTagParams {
+  name: string;
+  color?: string;
+}
+
+export interface UpdateTagParams extends Partial<CreateTagParams> {
+  tag_id?: number;
+  tag?: string;
+}
+
+export interface DeleteTagParams {
+  tag_id?: number;
+  tag?: string;
+  confirm?: boolean;
+}
+
+export interface MergeTagsParams {
+  source_tags: Array<number | string>;
+  target_tag: number | string;
+  dry_run?: boolean;
+}
+
+export interface BulkLinkFilter {
+  collection_id?: number;
+  collection?: string;
+  tag_ids?: number[];
+  tags?: string[];
+  search?: string;
+  is_favorite?: boolean;
+  query?: string;
+  operator?: 'AND' | 'OR';
+  collection_ids?: number[];
+  collections?: string[];
+}
+
+export type BulkLinkOperation =
+  | 'move'
+  | 'add_tags'
+  | 'remove_tags'
+  | 'set_favorite'
+  | 'clear_favorite';
+
+export interface BulkUpdateLinksParams {
+  link_ids?: string[];
+  filter?: BulkLinkFilter;
+  operation: BulkLinkOperation;
+  collection_id?: number;
+  collection?: string;
+  tag_ids?: number[];
+  tags?: string[];
+}
+
 export interface SearchAdvancedParams {
   query: string;
   operator?: 'AND' | 'OR';
   collection_ids?: number[];
+  collections?: string[];
   tag_ids?: number[];
+  tags?: string[];
   start_date?: string;
   end_date?: string;
   limit?: number;
@@ -147,6 +274,36 @@ export interface GetUserStatsParams {
   period?: 'day' | 'week' | 'month' | 'year';
 }
 
+// MCP Tool Result Types
+export interface ToolResult {
+  // Human-readable summary returned as text content
+  text: string;
+  // Typed payload returned as structuredContent, matching the tool's outputSchema
+  data: Record<string, unknown>;
+}
+
+// A configured account as list_accounts and whoami report it
+export interface AccountSummary {
+  name: string;
+  active: boolean;
+  signed_in: boolean;
+  // The signed-in user's email, else the configured username
+  email: string | null;
+  // Which kinds of credentials the profile configures
+  credentials: string[];
+}
+
+export interface FailureEntry {
+  id: string | number;
+  reason: string;
+}
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
 // API Response Types
 export interface ApiResponse<T> {
   data: T;
@@ -187,6 +344,23 @@ export interface ServerConfig {
   cache_max_size: number;
   rate_limit_requests: number;
   rate_limit_window_ms: number;
+  bulk_concurrency: number;
+  pagination_page_size: number;
+  pagination_max_items: number;
+  resource_poll_interval_ms: number;
+  session_idle_timeout_ms: number;
+}
+
+// Credentials of one named account: LL_USERNAME, LL_PASSWORD, ... for "default",
+// LL_ACCOUNT_<NAME>_USERNAME, LL_ACCOUNT_<NAME>_PASSWORD, ... for the others
+export interface AccountProfile {
+  name: string;
+  env_prefix: string;
+  username?: string;
+  password?: string;
+  password_file?: string;
+  credential_helper?: string;
+  token?: string;
 }
 
 // Error Types
@@ -207,6 +381,12 @@ export class AuthenticationError extends LinkLibraryError {
   }
 }
 
+// Whether the API turned the credentials down (401/403), as opposed to being
+// unreachable or failing
+export function isAuthRejection(error: unknown): boolean {
+  return error instanceof LinkLibraryError && (error.statusCode === 401 || error.statusCode === 403);
+}
+
 export class ValidationError extends LinkLibraryError {
   constructor(message: string = 'Validation failed') {
     super(message, 400, 'VALIDATION_ERROR');
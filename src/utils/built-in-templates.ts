@@ -0,0 +1,147 @@
+import type { OutputTemplate } from "./templates";
+
+// The output styles that ship with the server. Custom styles from
+// OUTPUT_TEMPLATES_FILE extend these.
+
+export const BUILT_IN_TEMPLATES: Record<string, OutputTemplate> = {
+  detailed: {
+    emoji: true,
+    links: {
+      header: "Found {count} links:\n\n",
+      item: "📌 {title}\n🆔 {id}\n🔗 {url}\n📝 {summary_short?}\n⭐ {favorite}\n📅 {created}\n---\n",
+      empty: "No links found.",
+    },
+    link: {
+      item: [
+        "📌 {title}",
+        "🆔 {id}",
+        "🔗 {url}",
+        "📝 Summary: {summary|None}",
+        "🗒️ Notes: {notes|None}",
+        "📁 Collection: {collection|None}",
+        "🏷️ Tags: {tags|None}",
+        "📄 Content type: {content_type|Unknown}",
+        "⭐ {favorite}",
+        "📦 {archived}",
+        "📅 Created: {created_at}",
+        "🕒 Updated: {updated_at}",
+        "",
+      ].join("\n"),
+    },
+    collections: {
+      header: "Found {count} collections:\n\n",
+      item: "📁 {name}\n   📝 {description?}\n   🔗 {link_count} links\n   🎨 Color: {color|default}\n---\n",
+      empty: "No collections found.",
+    },
+    tags: {
+      header: "Found {count} tags:\n\n",
+      item: "🏷️ {name}\n   🎨 Color: {color|default}\n   🔗 {link_count} links\n---\n",
+      empty: "No tags found.",
+    },
+  },
+
+  plain: {
+    emoji: false,
+    links: {
+      header: "Found {count} links:\n\n",
+      item: "Title: {title}\nID: {id}\nURL: {url}\nSummary: {summary_short?}\nFavorite: {favorite}\nCreated: {created}\n",
+      separator: "\n",
+      empty: "No links found.",
+    },
+    link: {
+      item: [
+        "Title: {title}",
+        "ID: {id}",
+        "URL: {url}",
+        "Summary: {summary|None}",
+        "Notes: {notes|None}",
+        "Collection: {collection|None}",
+        "Tags: {tags|None}",
+        "Content type: {content_type|Unknown}",
+        "Favorite: {favorite}",
+        "Archived: {archived}",
+        "Created: {created_at}",
+        "Updated: {updated_at}",
+        "",
+      ].join("\n"),
+    },
+    collections: {
+      header: "Found {count} collections:\n\n",
+      item: "{name}\n  Description: {description?}\n  Links: {link_count}\n  Color: {color|default}\n",
+      separator: "\n",
+      empty: "No collections found.",
+    },
+    tags: {
+      header: "Found {count} tags:\n\n",
+      item: "{name}\n  Color: {color|default}\n  Links: {link_count}\n",
+      separator: "\n",
+      empty: "No tags found.",
+    },
+  },
+
+  compact: {
+    emoji: true,
+    links: {
+      header: "{count} links:\n",
+      item: "- [{id}] {title} — {url}",
+      separator: "\n",
+      empty: "No links found.",
+    },
+    link: {
+      item: "[{id}] {title} — {url} ({collection|no collection}; tags: {tags|none})",
+    },
+    collections: {
+      header: "{count} collections:\n",
+      item: "- {name} (#{id}, {link_count} links)",
+      separator: "\n",
+      empty: "No collections found.",
+    },
+    tags: {
+      header: "{count} tags:\n",
+      item: "- {name} (#{id}, {link_count} links)",
+      separator: "\n",
+      empty: "No tags found.",
+    },
+  },
+
+  "markdown-table": {
+    emoji: true,
+    escape: "markdown",
+    links: {
+      header: "| ID | Title | URL | Favorite | Created |\n|---|---|---|---|---|\n",
+      item: "| {id} | {title} | {url} | {favorite} | {created} |",
+      separator: "\n",
+      empty: "No links found.",
+    },
+    link: {
+      item: [
+        "| Field | Value |",
+        "|---|---|",
+        "| ID | {id} |",
+        "| Title | {title} |",
+        "| URL | {url} |",
+        "| Summary | {summary|None} |",
+        "| Notes | {notes|None} |",
+        "| Collection | {collection|None} |",
+        "| Tags | {tags|None} |",
+        "| Content type | {content_type|Unknown} |",
+        "| Favorite | {favorite} |",
+        "| Archived | {archived} |",
+        "| Created | {created_at} |",
+        "| Updated | {updated_at} |",
+      ].join("\n"),
+    },
+    collections: {
+      header: "| ID | Name | Links | Color | Description |\n|---|---|---|---|---|\n",
+      item: "| {id} | {name} | {link_count} | {color} | {description} |",
+      separator: "\n",
+      empty: "No collections found.",
+    },
+    tags: {
+      header: "| ID | Name | Links | Color |\n|---|---|---|---|\n",
+      item: "| {id} | {name} | {link_count} | {color} |",
+      separator: "\n",
+      empty: "No tags found.",
+    },
+  },
+};
@@ -330,3 +330,70 @@ export class CacheUtils {
     return invalidatedCount;
   }
 }
+
+// Keys belonging to a session's namespace (prefix "session:<id>:<account>")
+const SESSION_KEY = /^session:[^|]*\|/;
+
+// A slice of the global cache whose keys carry a prefix, so sessions never read
+// or invalidate each other's entries. An empty prefix addresses everything
+// outside the session namespaces.
+export class CacheNamespace {
+  constructor(
+    readonly prefix: string,
+    private cache: InMemoryCache = globalCache,
+  ) {}
+
+  private key(key: string): string {
+    return this.prefix ? `${this.prefix}|${key}` : key;
+  }
+
+  get<T = unknown>(key: string): T | null {
+    return this.cache.get(this.key(key)) as T | null;
+  }
+
+  set(key: string, value: unknown, ttl?: number): void {
+    this.cache.set(this.key(key), value, ttl);
+  }
+
+  delete(key: string): boolean {
+    return this.cache.delete(this.key(key));
+  }
+
+  // Keys in this namespace, without the prefix
+  keys(): string[] {
+    if (!this.prefix) {
+      return this.cache.keys().filter((key) => !SESSION_KEY.test(key));
+    }
+    const start = `${this.prefix}|`;
+    return this.cache
+      .keys()
+      .filter((key) => key.startsWith(start))
+      .map((key) => key.substring(start.length));
+  }
+
+  // Invalidate entries in this namespace whose key contains the pattern
+  invalidatePattern(pattern: string): number {
+    const matchingKeys = this.keys().filter((key) => key.includes(pattern));
+    const invalidatedCount = matchingKeys.filter((key) => this.delete(key)).length;
+
+    logger.info(
+      `Cache invalidation: ${invalidatedCount} keys matching pattern "${pattern}"`,
+      {
+        operation: "cache_invalidation",
+        namespace: this.prefix,
+        pattern,
+        invalidated_count: invalidatedCount,
+      },
+    );
+
+    return invalidatedCount;
+  }
+
+  // Drop every entry in this namespace
+  clear(): number {
+    return this.keys().filter((key) => this.delete(key)).length;
+  }
+}
+
+// The namespace used outside of any session (stdio and the global singletons)
+export const defaultCacheNamespace = new CacheNamespace("");
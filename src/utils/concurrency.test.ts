@@ -0,0 +1,37 @@
+import { mapWithConcurrency } from './concurrency';
+
+describe('mapWithConcurrency', () => {
+  it('should return settled results in input order', async () => {
+    const results = await mapWithConcurrency([3, 1, 2], 2, async (n) => {
+      await new Promise((resolve) => setTimeout(resolve, n * 5));
+      if (n === 1) {
+        throw new Error('boom');
+      }
+      return n * 10;
+    });
+
+    expect(results).toEqual([
+      { status: 'fulfilled', value: 30 },
+      { status: 'rejected', reason: new Error('boom') },
+      { status: 'fulfilled', value: 20 },
+    ]);
+  });
+
+  it('should never exceed the concurrency limit', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    await mapWithConcurrency(Array.from({ length: 10 }, (_, i) => i), 3, async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight--;
+    });
+
+    expect(maxInFlight).toBe(3);
+  });
+
+  it('should handle an empty list', async () => {
+    expect(await mapWithConcurrency([], 5, async () => 1)).toEqual([]);
+  });
+});
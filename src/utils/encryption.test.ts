@@ -0,0 +1,27 @@
+import { decrypt, encrypt } from './encryption';
+
+describe('Encryption', () => {
+  it('should round-trip with a passphrase or key bytes', () => {
+    const key = Buffer.from('0123456789abcdef0123456789abcdef');
+
+    expect(decrypt(encrypt('secret token', 'passphrase'), 'passphrase')).toBe('secret token');
+    expect(decrypt(encrypt('secret token', key), key)).toBe('secret token');
+  });
+
+  it('should use a fresh salt and IV for every payload', () => {
+    const first = encrypt('same', 'passphrase');
+    const second = encrypt('same', 'passphrase');
+
+    expect(first.salt).not.toBe(second.salt);
+    expect(first.iv).not.toBe(second.iv);
+    expect(first.data).not.toContain('same');
+  });
+
+  it('should reject a wrong secret or tampered data', () => {
+    const payload = encrypt('secret token', 'passphrase');
+    const tampered = { ...payload, data: Buffer.from('forged').toString('base64') };
+
+    expect(() => decrypt(payload, 'wrong')).toThrow();
+    expect(() => decrypt(tampered, 'passphrase')).toThrow();
+  });
+});
@@ -0,0 +1,50 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "crypto";
+
+// Authenticated encryption for data kept on disk: AES-256-GCM with a key
+// derived by scrypt from a passphrase or key file, and a fresh salt and IV per write
+
+export interface EncryptedPayload {
+  version: 1;
+  kdf: "scrypt";
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+function deriveKey(secret: string | Buffer, salt: Buffer): Buffer {
+  return scryptSync(secret, salt, 32);
+}
+
+// Encrypt a string with a passphrase or key file contents
+export function encrypt(plaintext: string, secret: string | Buffer): EncryptedPayload {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", deriveKey(secret, salt), iv);
+  const data = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+
+  return {
+    version: 1,
+    kdf: "scrypt",
+    salt: salt.toString("base64"),
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+}
+
+// Decrypt a payload; throws when the secret is wrong or the data was tampered with
+export function decrypt(payload: EncryptedPayload, secret: string | Buffer): string {
+  if (payload.version !== 1 || payload.kdf !== "scrypt") {
+    throw new Error(`Unsupported encrypted payload (version ${payload.version})`);
+  }
+
+  const key = deriveKey(secret, Buffer.from(payload.salt, "base64"));
+  const decipher = createDecipheriv("aes-256-gcm", key, Buffer.from(payload.iv, "base64"));
+  decipher.setAuthTag(Buffer.from(payload.tag, "base64"));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(payload.data, "base64")),
+    decipher.final(),
+  ]).toString("utf8");
+}
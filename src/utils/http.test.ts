@@ -0,0 +1,41 @@
+import { corsHeaders, isAuthorized, normalizePath } from './http';
+
+describe('HTTP transport checks', () => {
+  describe('isAuthorized', () => {
+    it('should allow every request when no token is configured', () => {
+      expect(isAuthorized(undefined, undefined)).toBe(true);
+    });
+
+    it('should require the matching bearer token', () => {
+      expect(isAuthorized('Bearer s3cret', 's3cret')).toBe(true);
+      expect(isAuthorized('bearer  s3cret ', 's3cret')).toBe(true);
+      expect(isAuthorized('Bearer wrong', 's3cret')).toBe(false);
+      expect(isAuthorized('Basic s3cret', 's3cret')).toBe(false);
+      expect(isAuthorized(undefined, 's3cret')).toBe(false);
+    });
+  });
+
+  describe('corsHeaders', () => {
+    it('should add no headers for requests without an Origin', () => {
+      expect(corsHeaders(undefined, [])).toEqual({});
+    });
+
+    it('should echo allowed origins and reject others', () => {
+      const headers = corsHeaders('https://app.example.com', ['https://app.example.com']);
+
+      expect(headers?.['Access-Control-Allow-Origin']).toBe('https://app.example.com');
+      expect(headers?.['Access-Control-Expose-Headers']).toBe('Mcp-Session-Id');
+      expect(corsHeaders('https://evil.example.com', ['https://app.example.com'])).toBeNull();
+      expect(corsHeaders('https://app.example.com', [])).toBeNull();
+    });
+
+    it('should allow any origin with a wildcard', () => {
+      expect(corsHeaders('https://any.example.com', ['*'])?.['Access-Control-Allow-Origin']).toBe('*');
+    });
+  });
+
+  it('should normalize mount paths', () => {
+    expect(normalizePath('mcp/')).toBe('/mcp');
+    expect(normalizePath('/api/mcp')).toBe('/api/mcp');
+  });
+});
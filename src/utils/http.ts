@@ -0,0 +1,61 @@
+import { createHash, timingSafeEqual } from "crypto";
+
+// Request checks for the HTTP transport: bearer tokens and CORS
+
+const CORS_ALLOW_HEADERS = [
+  "Content-Type",
+  "Authorization",
+  "Accept",
+  "Last-Event-ID",
+  "Mcp-Session-Id",
+  "Mcp-Protocol-Version",
+].join(", ");
+
+const CORS_EXPOSE_HEADERS = "Mcp-Session-Id";
+
+// Check an Authorization header against the configured token (no token configured = open)
+export function isAuthorized(header: string | undefined, token: string | undefined): boolean {
+  if (!token) {
+    return true;
+  }
+
+  const match = /^Bearer\s+(.+)$/i.exec(header?.trim() || "");
+  if (!match) {
+    return false;
+  }
+
+  // Compare digests so the comparison takes the same time whatever the lengths
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(match[1].trim()), digest(token));
+}
+
+// CORS response headers for a request. Returns null when the request comes
+// from a browser origin that isn't allowed; requests without an Origin get none.
+export function corsHeaders(
+  origin: string | undefined,
+  allowedOrigins: string[],
+): Record<string, string> | null {
+  if (!origin) {
+    return {};
+  }
+
+  const allowAll = allowedOrigins.includes("*");
+  if (!allowAll && !allowedOrigins.includes(origin)) {
+    return null;
+  }
+
+  return {
+    "Access-Control-Allow-Origin": allowAll ? "*" : origin,
+    "Access-Control-Allow-Methods": "GET, POST, DELETE, OPTIONS",
+    "Access-Control-Allow-Headers": CORS_ALLOW_HEADERS,
+    "Access-Control-Expose-Headers": CORS_EXPOSE_HEADERS,
+    "Access-Control-Max-Age": "86400",
+    Vary: "Origin",
+  };
+}
+
+// Normalize a mount path: leading slash, no trailing slash
+export function normalizePath(path: string): string {
+  const trimmed = path.trim().replace(/\/+$/, "");
+  return trimmed.startsWith("/") ? trimmed : `/${trimmed}`;
+}
@@ -0,0 +1,33 @@
+import { DEFAULT_REFRESH_DELAY_MS, decodeJwtPayload, getRefreshDelay, getTokenExpiry } from './jwt';
+
+const jwt = (payload: Record<string, unknown>) =>
+  ['{"alg":"HS256"}', JSON.stringify(payload), 'signature']
+    .map((part, i) => (i < 2 ? Buffer.from(part).toString('base64url') : part))
+    .join('.');
+
+describe('JWT expiry', () => {
+  const now = Date.UTC(2024, 0, 1, 12, 0, 0);
+
+  it('should decode the payload and read exp', () => {
+    const token = jwt({ sub: 'user-1', exp: now / 1000 + 3600 });
+
+    expect(decodeJwtPayload(token)?.sub).toBe('user-1');
+    expect(getTokenExpiry(token)?.getTime()).toBe(now + 3600000);
+  });
+
+  it('should treat opaque tokens as having no expiry', () => {
+    expect(decodeJwtPayload('not-a-jwt')).toBeNull();
+    expect(getTokenExpiry('a.b.c')).toBeNull();
+    expect(getRefreshDelay('opaque-token', now)).toBe(DEFAULT_REFRESH_DELAY_MS);
+  });
+
+  it('should refresh five minutes before a long-lived token expires', () => {
+    expect(getRefreshDelay(jwt({ exp: now / 1000 + 3600 }), now)).toBe(55 * 60000);
+    expect(getRefreshDelay(jwt({ exp: now / 1000 + 86400 }), now)).toBe(86400000 - 5 * 60000);
+  });
+
+  it('should refresh short-lived and expired tokens early, but not immediately', () => {
+    expect(getRefreshDelay(jwt({ exp: now / 1000 + 600 }), now)).toBe(480000);
+    expect(getRefreshDelay(jwt({ exp: now / 1000 - 60 }), now)).toBe(10000);
+  });
+});
@@ -0,0 +1,43 @@
+// Reading expiry times from JWT access tokens, to schedule refreshes
+
+// Refresh this long before expiry, or a fifth of the remaining lifetime for short-lived tokens
+const REFRESH_LEAD_MS = 5 * 60 * 1000;
+// Never schedule a refresh sooner than this
+const MIN_REFRESH_DELAY_MS = 10 * 1000;
+// Used when the token has no readable exp claim (assumes the API's one-hour lifetime)
+export const DEFAULT_REFRESH_DELAY_MS = 55 * 60 * 1000;
+// Largest delay setTimeout accepts
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+// Decode the payload of a JWT without verifying it (the API does that)
+export function decodeJwtPayload(token: string): Record<string, unknown> | null {
+  const parts = token.split(".");
+  if (parts.length !== 3) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(parts[1], "base64url").toString("utf8"));
+    return payload && typeof payload === "object" ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+// When the token expires, from its exp claim (null when it has none)
+export function getTokenExpiry(token: string): Date | null {
+  const exp = decodeJwtPayload(token)?.exp;
+  return typeof exp === "number" && Number.isFinite(exp) ? new Date(exp * 1000) : null;
+}
+
+// How long to wait before refreshing the token
+export function getRefreshDelay(token: string, now: number = Date.now()): number {
+  const expiry = getTokenExpiry(token);
+  if (!expiry) {
+    return DEFAULT_REFRESH_DELAY_MS;
+  }
+
+  const remaining = expiry.getTime() - now;
+  const lead = Math.min(REFRESH_LEAD_MS, remaining / 5);
+  return Math.min(Math.max(remaining - lead, MIN_REFRESH_DELAY_MS), MAX_TIMER_DELAY_MS);
+}
@@ -0,0 +1,48 @@
+import { describeCandidates, matchByName } from './name-matching';
+
+const tags = [
+  { id: 1, name: 'machine-learning' },
+  { id: 2, name: 'Python' },
+  { id: 3, name: 'python-tips' },
+  { id: 4, name: 'Design' },
+];
+
+describe('matchByName', () => {
+  it('should match exact names case-insensitively', () => {
+    expect(matchByName(tags, 'python')).toEqual({ status: 'found', item: tags[1] });
+  });
+
+  it('should ignore separators and spacing', () => {
+    expect(matchByName(tags, 'Machine Learning')).toEqual({ status: 'found', item: tags[0] });
+  });
+
+  it('should accept small typos', () => {
+    expect(matchByName(tags, 'desgin')).toEqual({ status: 'found', item: tags[3] });
+  });
+
+  it('should skip fuzzy rules when asked for strict matching', () => {
+    expect(matchByName(tags, 'desgin', false).status).toBe('missing');
+    expect(matchByName(tags, 'PYTHON', false)).toEqual({ status: 'found', item: tags[1] });
+  });
+
+  it('should report ambiguous partial matches with every candidate', () => {
+    const withDuplicates = [...tags, { id: 5, name: 'ML' }, { id: 6, name: 'ml' }];
+
+    expect(matchByName(withDuplicates, 'ml')).toEqual({
+      status: 'ambiguous',
+      candidates: [{ id: 5, name: 'ML' }, { id: 6, name: 'ml' }],
+    });
+  });
+
+  it('should report missing names with suggestions', () => {
+    const result = matchByName(tags, 'rust');
+
+    expect(result.status).toBe('missing');
+  });
+});
+
+describe('describeCandidates', () => {
+  it('should list names with ids', () => {
+    expect(describeCandidates([tags[0], tags[1]])).toBe('"machine-learning" (#1), "Python" (#2)');
+  });
+});
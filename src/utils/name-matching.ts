@@ -0,0 +1,85 @@
+// Case-insensitive, fuzzy lookup of collections and tags by name
+
+export interface NamedItem {
+  id: number;
+  name: string;
+}
+
+export type NameMatch<T extends NamedItem> =
+  | { status: "found"; item: T }
+  | { status: "ambiguous"; candidates: T[] }
+  | { status: "missing"; suggestions: T[] };
+
+// Lowercase and drop separators so "Machine Learning" and "machine-learning" compare equal
+function simplify(name: string): string {
+  return name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, "");
+}
+
+// Edit distance between two strings, counting a swap of adjacent characters as one edit
+function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)),
+  );
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(
+        rows[i - 1][j] + 1,
+        rows[i][j - 1] + 1,
+        rows[i - 1][j - 1] + cost,
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return rows[a.length][b.length];
+}
+
+// Find an item by name, trying progressively looser rules and stopping at the first that matches anything
+// (pass fuzzy: false to only accept exact and separator-insensitive matches)
+export function matchByName<T extends NamedItem>(
+  items: T[],
+  name: string,
+  fuzzy: boolean = true,
+): NameMatch<T> {
+  const wanted = name.trim().toLowerCase();
+  const simplified = simplify(name);
+  const maxDistance = Math.max(1, Math.floor(simplified.length / 4));
+
+  const tiers: Array<(item: T) => boolean> = [
+    (item) => item.name.trim().toLowerCase() === wanted,
+    (item) => simplify(item.name) === simplified,
+    (item) =>
+      simplified.length >= 3 &&
+      (simplify(item.name).startsWith(simplified) ||
+        simplify(item.name).includes(simplified)),
+    (item) => editDistance(simplify(item.name), simplified) <= maxDistance,
+  ];
+
+  for (const tier of fuzzy ? tiers : tiers.slice(0, 2)) {
+    const matches = items.filter(tier);
+    if (matches.length === 1) {
+      return { status: "found", item: matches[0] };
+    }
+    if (matches.length > 1) {
+      return { status: "ambiguous", candidates: matches };
+    }
+  }
+
+  const suggestions = items
+    .map((item) => ({ item, distance: editDistance(simplify(item.name), simplified) }))
+    .filter((entry) => entry.distance <= Math.max(2, simplified.length / 2))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, 3)
+    .map((entry) => entry.item);
+
+  return { status: "missing", suggestions };
+}
+
+// Render candidates for an error message: "ml" (#1), "ML" (#2)
+export function describeCandidates(items: NamedItem[]): string {
+  return items.map((item) => `"${item.name}" (#${item.id})`).join(", ");
+}
@@ -0,0 +1,54 @@
+import { fetchAllPages } from './paginator';
+
+// Serve `count` numbered items in skip/limit pages, like the LinkLibrary API
+const makeSource = (count: number, withHasMore = true) => {
+  const calls: Array<{ skip: number; limit: number }> = [];
+  const fetchPage = async (skip: number, limit: number) => {
+    calls.push({ skip, limit });
+    const items = Array.from({ length: Math.max(0, Math.min(limit, count - skip)) }, (_, i) => skip + i);
+    return withHasMore
+      ? { items, total: count, has_more: skip + items.length < count }
+      : { items };
+  };
+  return { calls, fetchPage };
+};
+
+describe('fetchAllPages', () => {
+  it('should follow has_more across pages', async () => {
+    const source = makeSource(250);
+
+    const result = await fetchAllPages(source.fetchPage, { pageSize: 100, maxItems: 1000 });
+
+    expect(result.items).toHaveLength(250);
+    expect(result.total).toBe(250);
+    expect(result.truncated).toBe(false);
+    expect(source.calls.map((c) => c.skip)).toEqual([0, 100, 200]);
+  });
+
+  it('should stop on a short page when the API has no has_more or total', async () => {
+    const source = makeSource(150, false);
+
+    const result = await fetchAllPages(source.fetchPage, { pageSize: 100, maxItems: 1000 });
+
+    expect(result.items).toHaveLength(150);
+    expect(source.calls).toHaveLength(2);
+  });
+
+  it('should not request an extra page when the last page is exactly full', async () => {
+    const source = makeSource(200);
+
+    await fetchAllPages(source.fetchPage, { pageSize: 100, maxItems: 1000 });
+
+    expect(source.calls).toHaveLength(2);
+  });
+
+  it('should stop at the hard cap and report truncation', async () => {
+    const source = makeSource(500);
+
+    const result = await fetchAllPages(source.fetchPage, { pageSize: 100, maxItems: 250 });
+
+    expect(result.items).toHaveLength(250);
+    expect(result.truncated).toBe(true);
+    expect(source.calls.map((c) => c.limit)).toEqual([100, 100, 50]);
+  });
+});
@@ -0,0 +1,68 @@
+import { getPaginationConfig } from "../config";
+import { logger } from "./logger";
+
+// The parts of a paginated API response the paginator relies on
+export interface PageResponse<T> {
+  items: T[];
+  total?: number;
+  has_more?: boolean;
+}
+
+export interface PaginateOptions {
+  pageSize?: number;
+  maxItems?: number;
+  // Used in log messages when the hard cap cuts a listing short
+  label?: string;
+}
+
+export interface PaginatedResult<T> {
+  items: T[];
+  total?: number;
+  truncated: boolean;
+}
+
+// A page is the last one when it comes back short, or the API says nothing is left
+export function isLastPage<T>(
+  page: PageResponse<T>,
+  requested: number,
+  fetchedSoFar: number,
+): boolean {
+  return (
+    page.items.length < requested ||
+    page.has_more === false ||
+    (typeof page.total === "number" && fetchedSoFar >= page.total)
+  );
+}
+
+// Follow skip/limit pages until the API reports no more data or the hard cap is hit
+export async function fetchAllPages<T>(
+  fetchPage: (skip: number, limit: number) => Promise<PageResponse<T>>,
+  options: PaginateOptions = {},
+): Promise<PaginatedResult<T>> {
+  const defaults = getPaginationConfig();
+  const pageSize = options.pageSize || defaults.pageSize;
+  const maxItems = options.maxItems || defaults.maxItems;
+  const items: T[] = [];
+  let total: number | undefined;
+
+  for (let skip = 0; ; skip += pageSize) {
+    const limit = Math.min(pageSize, maxItems - items.length);
+    const response = await fetchPage(skip, limit);
+    const page = { ...response, items: Array.isArray(response?.items) ? response.items : [] };
+    items.push(...page.items);
+    total = page.total ?? total;
+
+    if (isLastPage(page, limit, items.length)) {
+      return { items, total, truncated: false };
+    }
+
+    if (items.length >= maxItems) {
+      logger.warn(`Pagination stopped at the ${maxItems} item cap`, {
+        operation: "pagination_truncated",
+        label: options.label,
+        total,
+      });
+      return { items, total, truncated: true };
+    }
+  }
+}
@@ -0,0 +1,89 @@
+import { ValidationError } from '../types';
+import { ParamDefinitions, parseArguments, toInputSchema } from './params';
+
+const params: ParamDefinitions = {
+  url: { type: 'string', required: true, description: 'The URL' },
+  limit: { type: 'integer', minimum: 1, maximum: 100, default: 50 },
+  is_favorite: { type: 'boolean' },
+  operator: { type: 'string', enum: ['AND', 'OR'] },
+  tag_ids: { type: 'array', items: { type: 'integer' } },
+  target_tag: { type: ['integer', 'string'] },
+  filter: {
+    type: 'object',
+    properties: { collection_id: { type: 'integer', required: true } },
+  },
+};
+
+describe('Tool parameters', () => {
+  describe('toInputSchema', () => {
+    it('should turn required flags into required lists at every level', () => {
+      const schema = toInputSchema(params);
+
+      expect(schema.required).toEqual(['url']);
+      expect(schema.properties.url).toEqual({ type: 'string', description: 'The URL' });
+      expect(schema.properties.limit).toEqual({ type: 'integer', minimum: 1, maximum: 100, default: 50 });
+      expect(schema.properties.filter).toEqual({
+        type: 'object',
+        properties: { collection_id: { type: 'integer' } },
+        required: ['collection_id'],
+      });
+      expect(toInputSchema({ is_favorite: { type: 'boolean' } })).toEqual({
+        type: 'object',
+        properties: { is_favorite: { type: 'boolean' } },
+      });
+    });
+  });
+
+  describe('parseArguments', () => {
+    it('should coerce values sent in the wrong form', () => {
+      expect(
+        parseArguments(params, {
+          url: 'https://example.com',
+          limit: '50',
+          is_favorite: 'true',
+          operator: 'and',
+          tag_ids: '[1, "2"]',
+          filter: '{"collection_id": "3"}',
+        }),
+      ).toEqual({
+        url: 'https://example.com',
+        limit: 50,
+        is_favorite: true,
+        operator: 'AND',
+        tag_ids: [1, 2],
+        filter: { collection_id: 3 },
+      });
+      expect(parseArguments(params, { url: 42, tag_ids: 7 })).toEqual({ url: '42', tag_ids: [7] });
+    });
+
+    it('should keep a value that already fits one of several types', () => {
+      expect(parseArguments(params, { url: 'x', target_tag: 5 }).target_tag).toBe(5);
+      expect(parseArguments(params, { url: 'x', target_tag: '5' }).target_tag).toBe('5');
+    });
+
+    it('should name the offending field', () => {
+      const failure = (args: Record<string, unknown>) => {
+        try {
+          parseArguments(params, { url: 'https://example.com', ...args });
+        } catch (error) {
+          expect(error).toBeInstanceOf(ValidationError);
+          return (error as Error).message;
+        }
+        return null;
+      };
+
+      expect(failure({ url: undefined })).toBe('url is required');
+      expect(failure({ limit: 'fifty' })).toBe('limit must be an integer');
+      expect(failure({ limit: 500 })).toBe('limit must be at most 100');
+      expect(failure({ limit: 0 })).toBe('limit must be at least 1');
+      expect(failure({ operator: 'XOR' })).toBe('operator must be one of: AND, OR');
+      expect(failure({ tag_ids: [1, 'two'] })).toBe('tag_ids[1] must be an integer');
+      expect(failure({ target_tag: true })).toBe('target_tag must be an integer or a string');
+      expect(failure({ filter: {} })).toBe('filter.collection_id is required');
+    });
+
+    it('should pass through arguments it has no definition for', () => {
+      expect(parseArguments(params, { url: 'x', skip: 10 })).toEqual({ url: 'x', skip: 10 });
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import { ValidationError } from "../types";
+
+// Tool parameters are defined once, as a JSON Schema subset with a required
+// flag on each parameter. The inputSchema a tool advertises and the checks its
+// arguments go through at call time are both derived from that definition.
+
+type ScalarType = "string" | "integer" | "number" | "boolean";
+type ParamType = ScalarType | "array" | "object";
+
+export interface ParamDefinition {
+  type: ParamType | ScalarType[];
+  description?: string;
+  required?: boolean;
+  // Documents what the tool does when the parameter is left out; not filled in
+  default?: unknown;
+  enum?: readonly string[];
+  minimum?: number;
+  maximum?: number;
+  items?: ParamDefinition;
+  properties?: ParamDefinitions;
+}
+
+export type ParamDefinitions = Record<string, ParamDefinition>;
+
+// A type rather than an interface, so it fits the SDK's Tool["inputSchema"]
+export type InputSchema = {
+  type: "object";
+  properties: Record<string, Record<string, unknown>>;
+  required?: string[];
+};
+
+const EXPECTED: Record<ParamType, string> = {
+  string: "a string",
+  integer: "an integer",
+  number: "a number",
+  boolean: "true or false",
+  array: "an array",
+  object: "an object",
+};
+
+// The JSON Schema a tool advertises for these parameters
+export function toInputSchema(params: ParamDefinitions): InputSchema {
+  const properties: InputSchema["properties"] = {};
+  for (const [name, param] of Object.entries(params)) {
+    properties[name] = toJsonSchema(param);
+  }
+
+  const required = Object.keys(params).filter((name) => params[name].required);
+  return required.length > 0 ? { type: "object", properties, required } : { type: "object", properties };
+}
+
+function toJsonSchema(param: ParamDefinition): Record<string, unknown> {
+  const schema: Record<string, unknown> = { ...param };
+  delete schema.required;
+  if (param.items) {
+    schema.items = toJsonSchema(param.items);
+  }
+  if (param.properties) {
+    Object.assign(schema, toInputSchema(param.properties));
+  }
+  return schema;
+}
+
+// Check arguments against their definitions, returning a copy with coerced
+// values. Values models often send in the wrong form are accepted ("50" for
+// 50, "true" for true, 7 for "7", a lone value for a one-item array, JSON
+// text for an array or object, "and" for "AND"). Anything else that does not
+// fit becomes a ValidationError naming the parameter. Arguments without a
+// definition are passed through unchanged.
+export function parseArguments(
+  params: ParamDefinitions,
+  args: Record<string, unknown> = {},
+  path: string = "",
+): Record<string, unknown> {
+  const parsed: Record<string, unknown> = { ...args };
+  for (const [name, param] of Object.entries(params)) {
+    const field = path ? `${path}.${name}` : name;
+    const value = args[name];
+
+    if (value === undefined || value === null) {
+      if (param.required) {
+        throw new ValidationError(`${field} is required`);
+      }
+      continue;
+    }
+    parsed[name] = parseValue(param, value, field);
+  }
+  return parsed;
+}
+
+function parseValue(param: ParamDefinition, value: unknown, field: string): unknown {
+  const types = Array.isArray(param.type) ? param.type : [param.type];
+
+  // A value already of an accepted type wins over coercing it to another one
+  const exact = types.find((type) => hasType(type, value));
+  const parsed = exact ? value : coerceAny(types, value);
+  if (parsed === undefined) {
+    throw new ValidationError(`${field} must be ${types.map((type) => EXPECTED[type]).join(" or ")}`);
+  }
+
+  const items = param.items;
+  if (Array.isArray(parsed)) {
+    return items ? parsed.map((item, i) => parseValue(items, item, `${field}[${i}]`)) : parsed;
+  }
+  if (typeof parsed === "object") {
+    return parseArguments(param.properties || {}, parsed as Record<string, unknown>, field);
+  }
+  return checkLimits(param, parsed, field);
+}
+
+function hasType(type: ParamType, value: unknown): boolean {
+  switch (type) {
+    case "integer":
+      return Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return typeof value === "object" && value !== null && !Array.isArray(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+// Convert a value (and its trimmed text, when it is a string) to each type;
+// undefined when it cannot be
+const COERCE: Record<ParamType, (value: unknown, text: string | null) => unknown> = {
+  string: (value) => (typeof value === "number" ? String(value) : undefined),
+  integer: (_value, text) => (text !== null && /^-?\d+$/.test(text) ? Number(text) : undefined),
+  number: (_value, text) => (text && Number.isFinite(Number(text)) ? Number(text) : undefined),
+  boolean: (_value, text) => (text === "true" || text === "false" ? text === "true" : undefined),
+  array: (value, text) => {
+    const json = parseJson(text, "[");
+    return Array.isArray(json) ? json : [value];
+  },
+  object: (_value, text) => {
+    const json = parseJson(text, "{");
+    return hasType("object", json) ? json : undefined;
+  },
+};
+
+function coerceAny(types: ParamType[], value: unknown): unknown {
+  const text = typeof value === "string" ? value.trim() : null;
+  for (const type of types) {
+    const coerced = COERCE[type](value, text);
+    if (coerced !== undefined) return coerced;
+  }
+  return undefined;
+}
+
+function parseJson(text: string | null, opening: string): unknown {
+  if (!text?.startsWith(opening)) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+function checkLimits(param: ParamDefinition, value: unknown, field: string): unknown {
+  if (typeof value === "string" && param.enum) {
+    const match = param.enum.find((option) => option.toLowerCase() === value.toLowerCase());
+    if (match === undefined) {
+      throw new ValidationError(`${field} must be one of: ${param.enum.join(", ")}`);
+    }
+    return match;
+  }
+
+  if (typeof value === "number") {
+    if (param.minimum !== undefined && value < param.minimum) {
+      throw new ValidationError(`${field} must be at least ${param.minimum}`);
+    }
+    if (param.maximum !== undefined && value > param.maximum) {
+      throw new ValidationError(`${field} must be at most ${param.maximum}`);
+    }
+  }
+  return value;
+}
@@ -0,0 +1,114 @@
+import { LinkLibraryCollection, LinkLibraryLink, LinkLibraryTag, ValidationError } from '../types';
+import {
+  PROMPTS,
+  collectionBriefPrompt,
+  parseDateRange,
+  parsePromptCount,
+  tagTaxonomyPrompt,
+  triageUntaggedPrompt,
+  weeklyRecapPrompt,
+} from './prompts';
+
+const link = (id: string, overrides: Partial<LinkLibraryLink> = {}): LinkLibraryLink => ({
+  id,
+  url: `https://example.com/${id}`,
+  title: `Title ${id}`,
+  is_favorite: false,
+  collection_id: 1,
+  tag_ids: [],
+  created_at: '2024-03-10T12:00:00Z',
+  updated_at: '2024-03-10T12:00:00Z',
+  ...overrides,
+});
+
+const collections: LinkLibraryCollection[] = [
+  { id: 1, name: 'Reading', description: 'Long reads', is_default: true, link_count: 3, created_at: '', updated_at: '' },
+];
+
+const tags: LinkLibraryTag[] = [
+  { id: 10, name: 'ai', link_count: 1, created_at: '', updated_at: '' },
+  { id: 11, name: 'unused', link_count: 0, created_at: '', updated_at: '' },
+];
+
+const links = [
+  link('a', { tag_ids: [10], summary: 'About\nmodels', created_at: '2024-03-04T08:00:00Z' }),
+  link('b', { created_at: '2024-03-09T23:59:59Z' }),
+  link('c', { created_at: '2024-03-11T00:00:00Z', is_favorite: true }),
+];
+
+const textOf = (result: ReturnType<typeof triageUntaggedPrompt>) => {
+  const content = result.messages[0].content;
+  return content.type === 'text' ? content.text : '';
+};
+
+describe('Prompts', () => {
+  it('should define unique prompt names with described arguments', () => {
+    const names = PROMPTS.map((prompt) => prompt.name);
+
+    expect(new Set(names).size).toBe(names.length);
+    for (const prompt of PROMPTS) {
+      expect(prompt.arguments?.every((arg) => !!arg.description)).toBe(true);
+    }
+  });
+
+  describe('parsePromptCount', () => {
+    it('should use the fallback and reject values out of range', () => {
+      expect(parsePromptCount(undefined, 'limit', 50)).toBe(50);
+      expect(parsePromptCount('7', 'limit', 50)).toBe(7);
+      expect(() => parsePromptCount('0', 'limit', 50)).toThrow(ValidationError);
+      expect(() => parsePromptCount('ten', 'limit', 50)).toThrow('limit must be a whole number');
+    });
+  });
+
+  describe('parseDateRange', () => {
+    const now = new Date('2024-03-10T15:00:00Z');
+
+    it('should default to the last 7 days including today', () => {
+      const range = parseDateRange(undefined, undefined, now);
+
+      expect(range.label).toBe('2024-03-04 to 2024-03-10');
+      expect(range.end.toISOString()).toBe('2024-03-11T00:00:00.000Z');
+    });
+
+    it('should reject invalid and reversed dates', () => {
+      expect(() => parseDateRange('2024-02-30', undefined, now)).toThrow('start_date must be a date');
+      expect(() => parseDateRange('2024-03-12', '2024-03-10', now)).toThrow('must not be after');
+    });
+  });
+
+  it('should embed only untagged links in the triage prompt, up to the limit', () => {
+    const text = textOf(triageUntaggedPrompt({ links, collections, tags }, 1));
+
+    expect(text).toContain('## Untagged links (2)');
+    expect(text).toContain('[Title c](https://example.com/c) (id: c; saved: 2024-03-11; collection: Reading; favorite)');
+    expect(text).not.toContain('Title a');
+    expect(text).toContain('…and 1 more not shown');
+    expect(text).toContain('- ai (1 links)');
+  });
+
+  it('should describe the collection and focus in the reading brief', () => {
+    const result = collectionBriefPrompt({ links, collections, tags }, collections[0], 'practical tips');
+    const text = textOf(result);
+
+    expect(result.description).toBe('Reading brief for "Reading" (3 links)');
+    expect(text).toContain('About this collection: Long reads');
+    expect(text).toContain('Focus the brief on: practical tips');
+    expect(text).toContain('  About models');
+  });
+
+  it('should count unused tags and sample recent links for the taxonomy', () => {
+    const text = textOf(tagTaxonomyPrompt({ links, collections, tags }, 2));
+
+    expect(text).toContain('## Current tags (2, 1 unused)');
+    expect(text).toContain('## Recent links (2 of 3)');
+    expect(text).not.toContain('Title a');
+  });
+
+  it('should keep only links saved within the recap range', () => {
+    const range = parseDateRange('2024-03-04', '2024-03-09');
+    const result = weeklyRecapPrompt({ links, collections, tags }, range, { tag: tags[0] });
+
+    expect(result.description).toBe('Recap of 2 links saved 2024-03-04 to 2024-03-09 (tag "ai")');
+    expect(textOf(result)).not.toContain('Title c');
+  });
+});
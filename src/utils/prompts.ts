@@ -0,0 +1,257 @@
+import type { GetPromptResult, Prompt } from "@modelcontextprotocol/sdk/types.js";
+import {
+  LinkLibraryCollection,
+  LinkLibraryLink,
+  LinkLibraryTag,
+  ValidationError,
+} from "../types";
+
+// Server-defined prompts: reusable instructions with the relevant library data
+// embedded, so clients don't have to retype them or fetch the data first
+
+// The library data a prompt embeds (already narrowed to what the prompt covers)
+export interface PromptLibrary {
+  links: LinkLibraryLink[];
+  collections: LinkLibraryCollection[];
+  tags: LinkLibraryTag[];
+}
+
+export interface DateRange {
+  start: Date;
+  // Exclusive: the day after end_date
+  end: Date;
+  label: string;
+}
+
+// Most links embedded in one prompt, to keep messages a sensible size
+export const PROMPT_MAX_LINKS = 200;
+
+export const DEFAULT_TRIAGE_LIMIT = 50;
+export const DEFAULT_TAXONOMY_SAMPLE = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const PROMPTS: Prompt[] = [
+  {
+    name: "triage_untagged",
+    title: "Triage untagged links",
+    description: "Suggest tags (and a collection where it fits) for links that have no tags yet",
+    arguments: [
+      { name: "collection", description: "Only triage links in this collection (name or ID)" },
+      { name: "limit", description: `Maximum links to include (default ${DEFAULT_TRIAGE_LIMIT}, max ${PROMPT_MAX_LINKS})` },
+    ],
+  },
+  {
+    name: "collection_brief",
+    title: "Collection reading brief",
+    description: "Summarize a collection into a reading brief: themes, key takeaways and a suggested reading order",
+    arguments: [
+      { name: "collection", description: "Collection name or ID", required: true },
+      { name: "focus", description: "Optional angle or question the brief should answer" },
+    ],
+  },
+  {
+    name: "suggest_tag_taxonomy",
+    title: "Suggest a tag taxonomy",
+    description: "Propose a cleaner tag taxonomy: merges, renames, hierarchy and gaps, based on current tags and recent links",
+    arguments: [
+      { name: "sample_size", description: `Recent links to include as examples (default ${DEFAULT_TAXONOMY_SAMPLE}, max ${PROMPT_MAX_LINKS})` },
+    ],
+  },
+  {
+    name: "weekly_recap",
+    title: "What I saved",
+    description: "Recap the links saved in a date range (the last 7 days by default)",
+    arguments: [
+      { name: "start_date", description: "First day to include (YYYY-MM-DD, default 6 days before end_date)" },
+      { name: "end_date", description: "Last day to include (YYYY-MM-DD, default today)" },
+      { name: "collection", description: "Only include links in this collection (name or ID)" },
+      { name: "tag", description: "Only include links with this tag (name or ID)" },
+    ],
+  },
+];
+
+// Parse a numeric prompt argument (prompt arguments always arrive as strings)
+export function parsePromptCount(value: string | undefined, name: string, fallback: number): number {
+  if (value === undefined || value.trim() === "") {
+    return fallback;
+  }
+  if (!/^\d+$/.test(value.trim()) || Number(value) < 1 || Number(value) > PROMPT_MAX_LINKS) {
+    throw new ValidationError(`${name} must be a whole number between 1 and ${PROMPT_MAX_LINKS}`);
+  }
+  return Number(value);
+}
+
+function parseDay(value: string, name: string): Date {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+  const date = match ? new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]))) : null;
+  if (!date || date.toISOString().substring(0, 10) !== value.trim()) {
+    throw new ValidationError(`${name} must be a date in YYYY-MM-DD format`);
+  }
+  return date;
+}
+
+// Resolve the recap date range (UTC days, both ends inclusive)
+export function parseDateRange(startDate?: string, endDate?: string, now: Date = new Date()): DateRange {
+  const lastDay = endDate
+    ? parseDay(endDate, "end_date")
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const firstDay = startDate
+    ? parseDay(startDate, "start_date")
+    : new Date(lastDay.getTime() - 6 * DAY_MS);
+
+  if (firstDay > lastDay) {
+    throw new ValidationError("start_date must not be after end_date");
+  }
+
+  const day = (date: Date) => date.toISOString().substring(0, 10);
+  return {
+    start: firstDay,
+    end: new Date(lastDay.getTime() + DAY_MS),
+    label: `${day(firstDay)} to ${day(lastDay)}`,
+  };
+}
+
+function newestFirst(links: LinkLibraryLink[]): LinkLibraryLink[] {
+  return [...links].sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
+
+// One markdown bullet per link, with the names the model needs to reason about it
+function formatPromptLink(link: LinkLibraryLink, library: PromptLibrary): string {
+  const collection = library.collections.find((c) => c.id === link.collection_id);
+  const tagNames = (link.tag_ids || [])
+    .map((id) => library.tags.find((tag) => tag.id === id)?.name)
+    .filter((name): name is string => !!name);
+
+  const details = [`id: ${link.id}`, `saved: ${link.created_at.substring(0, 10)}`];
+  if (collection) details.push(`collection: ${collection.name}`);
+  if (tagNames.length > 0) details.push(`tags: ${tagNames.join(", ")}`);
+  if (link.is_favorite) details.push("favorite");
+
+  let line = `- [${link.title}](${link.url}) (${details.join("; ")})`;
+  if (link.summary) line += `\n  ${link.summary.replace(/\s+/g, " ")}`;
+  if (link.notes) line += `\n  Notes: ${link.notes.replace(/\s+/g, " ")}`;
+  return line;
+}
+
+function formatPromptLinks(links: LinkLibraryLink[], library: PromptLibrary, max: number): string {
+  if (links.length === 0) {
+    return "_No links._";
+  }
+
+  const shown = links.slice(0, max).map((link) => formatPromptLink(link, library));
+  if (links.length > max) {
+    shown.push(`- …and ${links.length - max} more not shown`);
+  }
+  return shown.join("\n");
+}
+
+function formatTagList(tags: LinkLibraryTag[]): string {
+  if (tags.length === 0) {
+    return "_No tags yet._";
+  }
+  return [...tags]
+    .sort((a, b) => b.link_count - a.link_count || a.name.localeCompare(b.name))
+    .map((tag) => `- ${tag.name} (${tag.link_count} links)`)
+    .join("\n");
+}
+
+function formatCollectionList(collections: LinkLibraryCollection[]): string {
+  return collections
+    .map((c) => `- ${c.name}${c.description ? ` — ${c.description}` : ""} (${c.link_count} links)`)
+    .join("\n");
+}
+
+function userPrompt(description: string, text: string): GetPromptResult {
+  return {
+    description,
+    messages: [{ role: "user", content: { type: "text", text } }],
+  };
+}
+
+// Suggest tags for untagged links, using the existing tags and collections as the vocabulary
+export function triageUntaggedPrompt(
+  library: PromptLibrary,
+  limit: number,
+  collection?: LinkLibraryCollection,
+): GetPromptResult {
+  const untagged = newestFirst(library.links.filter((link) => (link.tag_ids || []).length === 0));
+  const scope = collection ? ` in the "${collection.name}" collection` : "";
+
+  const text =
+    `Help me triage my untagged bookmarks${scope}. For each link below, suggest 1-3 tags, ` +
+    "preferring my existing tags and only proposing a new tag when nothing fits. " +
+    "If a link clearly belongs in a different collection, say so. " +
+    "Answer with a table of link ID, title, suggested tags and (optional) collection, " +
+    "then list any new tags you proposed and why.\n\n" +
+    `## Untagged links${scope} (${untagged.length})\n\n${formatPromptLinks(untagged, library, limit)}\n\n` +
+    `## Existing tags\n\n${formatTagList(library.tags)}\n\n` +
+    `## Collections\n\n${formatCollectionList(library.collections)}`;
+
+  return userPrompt(`Triage ${untagged.length} untagged links${scope}`, text);
+}
+
+// Turn the links in one collection into a reading brief
+export function collectionBriefPrompt(
+  library: PromptLibrary,
+  collection: LinkLibraryCollection,
+  focus?: string,
+): GetPromptResult {
+  const links = newestFirst(library.links);
+  const about = collection.description ? `\n\nAbout this collection: ${collection.description}` : "";
+  const angle = focus ? `\n\nFocus the brief on: ${focus}` : "";
+
+  const text =
+    `Write a reading brief for my "${collection.name}" collection. Group the links into themes, ` +
+    "give the key takeaway of each theme, point out overlaps and gaps, " +
+    "and finish with a suggested reading order (most essential first). " +
+    `Cite links by title.${about}${angle}\n\n` +
+    `## Links (${links.length})\n\n${formatPromptLinks(links, library, PROMPT_MAX_LINKS)}`;
+
+  return userPrompt(`Reading brief for "${collection.name}" (${links.length} links)`, text);
+}
+
+// Propose a better tag taxonomy from the current tags and a sample of recent links
+export function tagTaxonomyPrompt(library: PromptLibrary, sampleSize: number): GetPromptResult {
+  const links = newestFirst(library.links);
+  const unused = library.tags.filter((tag) => tag.link_count === 0).length;
+
+  const text =
+    "Review my bookmark tags and suggest a cleaner taxonomy. Point out duplicates and near-duplicates " +
+    "to merge, inconsistent naming to fix, tags too broad or too narrow to be useful, " +
+    "unused tags to delete, and topics in my links that have no tag yet. " +
+    "Propose the final tag list (grouped into a shallow hierarchy if that helps) " +
+    "and a list of concrete changes: merge A into B, rename C to D, and so on.\n\n" +
+    `## Current tags (${library.tags.length}, ${unused} unused)\n\n${formatTagList(library.tags)}\n\n` +
+    `## Recent links (${Math.min(sampleSize, links.length)} of ${links.length})\n\n` +
+    `${formatPromptLinks(links.slice(0, sampleSize), library, sampleSize)}`;
+
+  return userPrompt(`Tag taxonomy review for ${library.tags.length} tags`, text);
+}
+
+// Recap the links saved in a date range
+export function weeklyRecapPrompt(
+  library: PromptLibrary,
+  range: DateRange,
+  scope: { collection?: LinkLibraryCollection; tag?: LinkLibraryTag } = {},
+): GetPromptResult {
+  const links = newestFirst(
+    library.links.filter((link) => {
+      const saved = new Date(link.created_at);
+      return saved >= range.start && saved < range.end;
+    }),
+  );
+  const filters = [
+    scope.collection ? `collection "${scope.collection.name}"` : "",
+    scope.tag ? `tag "${scope.tag.name}"` : "",
+  ].filter(Boolean);
+  const scoped = filters.length > 0 ? ` (${filters.join(", ")})` : "";
+
+  const text =
+    `Give me a "what I saved" recap for ${range.label}${scoped}. ` +
+    "Summarize the main topics I was reading about, highlight the 3-5 most interesting links and why, " +
+    "mention any favorites, and suggest what to read first or follow up on. Keep it short and skimmable.\n\n" +
+    `## Links saved ${range.label}${scoped} (${links.length})\n\n` +
+    `${formatPromptLinks(links, library, PROMPT_MAX_LINKS)}`;
+
+  return userPrompt(`Recap of ${links.length} links saved ${range.label}${scoped}`, text);
+}
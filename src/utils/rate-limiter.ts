@@ -59,6 +59,24 @@ export class RateLimiter {
     return allowed;
   }
 
+  // Wait until a request is allowed for a key, giving up after maxWaitMs
+  async acquire(key: string, maxWaitMs: number = this.windowMs): Promise<boolean> {
+    const deadline = Date.now() + maxWaitMs;
+
+    while (!this.isAllowed(key)) {
+      const waitMs = Math.min(
+        Math.max(this.getResetTime(key) - Date.now(), 50),
+        deadline - Date.now(),
+      );
+      if (waitMs <= 0) {
+        return false;
+      }
+      await new Promise((resolve) => setTimeout(resolve, waitMs));
+    }
+
+    return true;
+  }
+
   // Get remaining requests for a key
   getRemaining(key: string): number {
     const now = Date.now();
@@ -0,0 +1,116 @@
+import { LinkLibraryCollection, LinkLibraryLink, LinkLibraryTag } from '../types';
+import {
+  applyMutation,
+  createSnapshot,
+  diffSnapshots,
+  parseMutationPath,
+  resourceKey,
+  resourceUri,
+} from './resource-diff';
+
+const link = (id: string, overrides: Partial<LinkLibraryLink> = {}): LinkLibraryLink => ({
+  id,
+  url: `https://example.com/${id}`,
+  title: id,
+  is_favorite: false,
+  collection_id: 1,
+  tag_ids: [10],
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const collections: LinkLibraryCollection[] = [
+  { id: 1, name: 'Reading', is_default: true, link_count: 2, created_at: '', updated_at: 't0' },
+  { id: 2, name: 'Work', is_default: false, link_count: 0, created_at: '', updated_at: 't0' },
+];
+
+const tags: LinkLibraryTag[] = [
+  { id: 10, name: 'Machine Learning', link_count: 2, created_at: '', updated_at: 't0' },
+];
+
+describe('Resource change detection', () => {
+  const base = createSnapshot([link('a'), link('b')], collections, tags);
+
+  describe('resourceKey', () => {
+    it('should ignore the query and tag name case', () => {
+      expect(resourceKey('linklibrary://tags/machine%20learning?format=json'))
+        .toBe(resourceKey(resourceUri('tags', 'Machine Learning')));
+      expect(resourceKey('linklibrary://links/a')).toBe('links/a');
+    });
+
+    it('should reject other URIs', () => {
+      expect(resourceKey('https://example.com/a')).toBeNull();
+      expect(resourceKey('linklibrary://widgets/1')).toBeNull();
+      expect(resourceKey('linklibrary://links/')).toBeNull();
+    });
+  });
+
+  describe('diffSnapshots', () => {
+    it('should report nothing for identical snapshots', () => {
+      const diff = diffSnapshots(base, createSnapshot([link('a'), link('b')], collections, tags));
+
+      expect(diff.updated.size).toBe(0);
+      expect(diff.listChanged).toBe(false);
+    });
+
+    it('should mark an edited link and the collections and tags that list it', () => {
+      const next = createSnapshot(
+        [link('a', { updated_at: '2024-02-01T00:00:00Z', collection_id: 2 }), link('b')],
+        collections,
+        tags,
+      );
+
+      const diff = diffSnapshots(base, next);
+
+      expect(Array.from(diff.updated).sort()).toEqual([
+        'collections/1',
+        'collections/2',
+        'links/a',
+        'tags/machine learning',
+      ]);
+      expect(diff.listChanged).toBe(false);
+    });
+
+    it('should flag list changes for added and removed links', () => {
+      const diff = diffSnapshots(base, createSnapshot([link('a'), link('c')], collections, tags));
+
+      expect(diff.updated).toContain('links/b');
+      expect(diff.updated).toContain('links/c');
+      expect(diff.listChanged).toBe(true);
+    });
+
+    it('should treat a renamed tag as a list change under both names', () => {
+      const renamed = [{ ...tags[0], name: 'ML', updated_at: 't1' }];
+
+      const diff = diffSnapshots(base, createSnapshot([link('a'), link('b')], collections, renamed));
+
+      expect(diff.updated).toContain('tags/machine learning');
+      expect(diff.updated).toContain('tags/ml');
+      expect(diff.listChanged).toBe(true);
+    });
+  });
+
+  describe('applyMutation', () => {
+    it('should parse API paths', () => {
+      expect(parseMutationPath('/links/a')).toEqual({ kind: 'links', id: 'a' });
+      expect(parseMutationPath('/collections')).toEqual({ kind: 'collections', id: undefined });
+      expect(parseMutationPath('/search/link')).toBeNull();
+    });
+
+    it('should apply updates, creations and deletions', () => {
+      const updated = applyMutation(base, 'PATCH', '/links/a', link('a', { updated_at: 't2' }));
+      const created = applyMutation(base, 'POST', '/tags', { ...tags[0], id: 11, name: 'ai' });
+      const deleted = applyMutation(base, 'DELETE', '/collections/2', undefined);
+
+      expect(updated?.links.get('a')?.updated_at).toBe('t2');
+      expect(created?.tags.get(11)?.name).toBe('ai');
+      expect(deleted?.collections.has(2)).toBe(false);
+      expect(base.collections.has(2)).toBe(true);
+    });
+
+    it('should ignore requests that are not about library resources', () => {
+      expect(applyMutation(base, 'POST', '/auth/login', { access_token: 'x' })).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,233 @@
+import { LinkLibraryCollection, LinkLibraryLink, LinkLibraryTag } from "../types";
+
+// Change detection for linklibrary:// resources. A snapshot records just enough
+// of the library to tell which resources a change touches: a link's own
+// resource plus the collection and tag resources that list it.
+
+export type ResourceKind = "links" | "collections" | "tags";
+
+export interface LinkState {
+  updated_at: string;
+  collection_id?: number | null;
+  tag_ids: number[];
+}
+
+// Collections and tags track the same fields
+export interface NamedState {
+  name: string;
+  updated_at: string;
+  link_count: number;
+}
+
+export interface LibrarySnapshot {
+  links: Map<string, LinkState>;
+  collections: Map<number, NamedState>;
+  tags: Map<number, NamedState>;
+}
+
+export interface SnapshotDiff {
+  // Resource keys (see resourceKey) whose contents changed
+  updated: Set<string>;
+  // Whether resources were added, removed or renamed
+  listChanged: boolean;
+}
+
+const RESOURCE_KINDS: ResourceKind[] = ["links", "collections", "tags"];
+
+// Build the URI of a bookmark, collection or tag resource
+export function resourceUri(kind: ResourceKind, key: string | number): string {
+  return `linklibrary://${kind}/${encodeURIComponent(key.toString())}`;
+}
+
+// Comparison key for a resource URI: query ignored, key decoded, tag names lowercased.
+// Returns null for URIs that aren't linklibrary:// resources.
+export function resourceKey(uri: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(uri);
+  } catch {
+    return null;
+  }
+
+  const kind = parsed.hostname as ResourceKind;
+  const key = decodeURIComponent(parsed.pathname.replace(/^\//, ""));
+  if (parsed.protocol !== "linklibrary:" || !RESOURCE_KINDS.includes(kind) || !key) {
+    return null;
+  }
+
+  return `${kind}/${kind === "tags" ? key.toLowerCase() : key}`;
+}
+
+function keyFor(kind: ResourceKind, key: string | number): string {
+  return resourceKey(resourceUri(kind, key)) as string;
+}
+
+function linkState(link: LinkLibraryLink): LinkState {
+  return {
+    updated_at: link.updated_at,
+    collection_id: link.collection_id,
+    tag_ids: link.tag_ids || [],
+  };
+}
+
+function namedState(item: LinkLibraryCollection | LinkLibraryTag): NamedState {
+  return { name: item.name, updated_at: item.updated_at, link_count: item.link_count };
+}
+
+export function createSnapshot(
+  links: LinkLibraryLink[],
+  collections: LinkLibraryCollection[],
+  tags: LinkLibraryTag[],
+): LibrarySnapshot {
+  return {
+    links: new Map(links.map((link) => [link.id, linkState(link)])),
+    collections: new Map(collections.map((collection) => [collection.id, namedState(collection)])),
+    tags: new Map(tags.map((tag) => [tag.id, namedState(tag)])),
+  };
+}
+
+// Mark the collection and tag resources that list a link as updated
+function touchContainers(link: LinkState, snapshot: LibrarySnapshot, updated: Set<string>): void {
+  if (link.collection_id !== undefined && link.collection_id !== null) {
+    updated.add(keyFor("collections", link.collection_id));
+  }
+  for (const tagId of link.tag_ids) {
+    const tag = snapshot.tags.get(tagId);
+    if (tag) {
+      updated.add(keyFor("tags", tag.name));
+    }
+  }
+}
+
+function sameLink(a: LinkState, b: LinkState): boolean {
+  return (
+    a.updated_at === b.updated_at &&
+    a.collection_id === b.collection_id &&
+    a.tag_ids.join(",") === b.tag_ids.join(",")
+  );
+}
+
+function diffLinks(prev: LibrarySnapshot, next: LibrarySnapshot, diff: SnapshotDiff): void {
+  for (const [id, before] of prev.links) {
+    const after = next.links.get(id);
+    if (after && sameLink(before, after)) continue;
+
+    diff.updated.add(keyFor("links", id));
+    touchContainers(before, prev, diff.updated);
+    if (after) {
+      touchContainers(after, next, diff.updated);
+    } else {
+      diff.listChanged = true;
+    }
+  }
+
+  for (const [id, after] of next.links) {
+    if (prev.links.has(id)) continue;
+    diff.updated.add(keyFor("links", id));
+    touchContainers(after, next, diff.updated);
+    diff.listChanged = true;
+  }
+}
+
+function diffNamed(
+  kind: "collections" | "tags",
+  prev: Map<number, NamedState>,
+  next: Map<number, NamedState>,
+  diff: SnapshotDiff,
+): void {
+  // Collections are addressed by ID, tags by name
+  const key = (id: number, state: NamedState) => keyFor(kind, kind === "tags" ? state.name : id);
+
+  for (const [id, before] of prev) {
+    const after = next.get(id);
+    if (!after || after.name !== before.name) {
+      diff.listChanged = true;
+      diff.updated.add(key(id, before));
+      if (after) diff.updated.add(key(id, after));
+    } else if (after.updated_at !== before.updated_at || after.link_count !== before.link_count) {
+      diff.updated.add(key(id, after));
+    }
+  }
+
+  for (const [id, after] of next) {
+    if (!prev.has(id)) {
+      diff.listChanged = true;
+      diff.updated.add(key(id, after));
+    }
+  }
+}
+
+// Work out which resources differ between two snapshots
+export function diffSnapshots(prev: LibrarySnapshot, next: LibrarySnapshot): SnapshotDiff {
+  const diff: SnapshotDiff = { updated: new Set(), listChanged: false };
+  diffLinks(prev, next, diff);
+  diffNamed("collections", prev.collections, next.collections, diff);
+  diffNamed("tags", prev.tags, next.tags, diff);
+  return diff;
+}
+
+// Parse an API path like "/links/abc" into the resource kind and ID it targets
+export function parseMutationPath(url: string): { kind: ResourceKind; id?: string } | null {
+  const match = /^\/(links|collections|tags)(?:\/([^/?]+))?\/?(?:\?.*)?$/.exec(url);
+  return match ? { kind: match[1] as ResourceKind, id: match[2] } : null;
+}
+
+function applyLinkMutation(
+  links: Map<string, LinkState>,
+  id: string | undefined,
+  isDelete: boolean,
+  record: Record<string, unknown> | null,
+): boolean {
+  if (!id) return false;
+  if (isDelete) {
+    links.delete(id);
+  } else if (record?.updated_at !== undefined) {
+    links.set(id, linkState(record as unknown as LinkLibraryLink));
+  } else {
+    return false;
+  }
+  return true;
+}
+
+function applyNamedMutation(
+  items: Map<number, NamedState>,
+  id: number,
+  isDelete: boolean,
+  record: Record<string, unknown> | null,
+): boolean {
+  if (!Number.isFinite(id)) return false;
+  if (isDelete) {
+    items.delete(id);
+  } else if (record?.name !== undefined) {
+    items.set(id, namedState(record as unknown as LinkLibraryCollection));
+  } else {
+    return false;
+  }
+  return true;
+}
+
+// Apply a successful API write to a snapshot, returning the updated copy
+// (or null when the request doesn't touch a bookmark, collection or tag)
+export function applyMutation(
+  snapshot: LibrarySnapshot,
+  method: string,
+  url: string,
+  data: unknown,
+): LibrarySnapshot | null {
+  const target = parseMutationPath(url);
+  if (!target) return null;
+
+  const next: LibrarySnapshot = {
+    links: new Map(snapshot.links),
+    collections: new Map(snapshot.collections),
+    tags: new Map(snapshot.tags),
+  };
+  const record = data && typeof data === "object" ? (data as Record<string, unknown>) : null;
+  const isDelete = method.toUpperCase() === "DELETE";
+
+  const applied = target.kind === "links"
+    ? applyLinkMutation(next.links, target.id ?? (record?.id as string | undefined), isDelete, record)
+    : applyNamedMutation(next[target.kind], Number(target.id ?? record?.id), isDelete, record);
+
+  return applied ? next : null;
+}
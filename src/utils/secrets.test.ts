@@ -0,0 +1,46 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describePasswordSource, resolvePassword } from './secrets';
+
+describe('Password sources', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'll-secrets-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should prefer LL_PASSWORD', async () => {
+    const sources = { password: 'env', password_file: join(dir, 'missing') };
+
+    await expect(resolvePassword(sources)).resolves.toBe('env');
+    expect(describePasswordSource(sources)).toBe('LL_PASSWORD');
+  });
+
+  it('should read the first line of LL_PASSWORD_FILE', async () => {
+    const file = join(dir, 'password');
+    writeFileSync(file, 'from file\n');
+
+    await expect(resolvePassword({ password_file: file })).resolves.toBe('from file');
+    await expect(resolvePassword({ password_file: join(dir, 'missing') })).rejects.toThrow(
+      'Could not read LL_PASSWORD_FILE',
+    );
+  });
+
+  it('should run LL_CREDENTIAL_HELPER with LL_USERNAME set', async () => {
+    const sources = { username: 'me@example.com', credential_helper: 'echo "pw-for-$LL_USERNAME"' };
+
+    await expect(resolvePassword(sources)).resolves.toBe('pw-for-me@example.com');
+    await expect(resolvePassword({ credential_helper: 'exit 3' })).rejects.toThrow('LL_CREDENTIAL_HELPER failed');
+    await expect(resolvePassword({ credential_helper: 'true' })).rejects.toThrow('did not provide a password');
+  });
+
+  it('should resolve nothing when no source is configured', async () => {
+    await expect(resolvePassword({ username: 'me@example.com' })).resolves.toBeUndefined();
+    expect(describePasswordSource({})).toBeNull();
+  });
+});
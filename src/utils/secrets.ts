@@ -0,0 +1,84 @@
+import { exec } from "child_process";
+import { readFile } from "fs/promises";
+import { promisify } from "util";
+import { AuthenticationError } from "../types";
+
+const execAsync = promisify(exec);
+
+// How long a credential helper may take to print the password
+const CREDENTIAL_HELPER_TIMEOUT_MS = 10000;
+
+// Where the configured password can come from (the LL_* environment variables,
+// or LL_ACCOUNT_<NAME>_* for a named account)
+export interface PasswordSources {
+  env_prefix?: string;
+  username?: string;
+  password?: string;
+  password_file?: string;
+  credential_helper?: string;
+}
+
+function reason(error: unknown): string {
+  return error instanceof Error ? error.message : "Unknown error";
+}
+
+// The first line of some output, which must not be empty
+function firstLine(output: string, source: string): string {
+  const line = output.split(/\r?\n/)[0];
+  if (!line) {
+    throw new AuthenticationError(`${source} did not provide a password`);
+  }
+  return line;
+}
+
+async function readPasswordFile(filePath: string, variable: string): Promise<string> {
+  let contents: string;
+  try {
+    contents = await readFile(filePath, "utf8");
+  } catch (error) {
+    throw new AuthenticationError(`Could not read ${variable} (${reason(error)})`);
+  }
+  return firstLine(contents, variable);
+}
+
+// Run the helper command with LL_USERNAME in its environment; it prints the password
+async function runCredentialHelper(command: string, variable: string, username?: string): Promise<string> {
+  let stdout: string;
+  try {
+    ({ stdout } = await execAsync(command, {
+      timeout: CREDENTIAL_HELPER_TIMEOUT_MS,
+      env: { ...process.env, LL_USERNAME: username || "" },
+    }));
+  } catch (error) {
+    throw new AuthenticationError(`${variable} failed (${reason(error)})`);
+  }
+  return firstLine(stdout, variable);
+}
+
+// Name of the configured password source, for diagnostics (null when none is set)
+export function describePasswordSource(sources: PasswordSources): string | null {
+  const prefix = sources.env_prefix || "LL_";
+  if (sources.password) return `${prefix}PASSWORD`;
+  if (sources.password_file) return `${prefix}PASSWORD_FILE`;
+  if (sources.credential_helper) return `${prefix}CREDENTIAL_HELPER`;
+  return null;
+}
+
+// Get the configured password: LL_PASSWORD, else the first line of
+// LL_PASSWORD_FILE, else the first line printed by LL_CREDENTIAL_HELPER
+export async function resolvePassword(sources: PasswordSources): Promise<string | undefined> {
+  if (sources.password) {
+    return sources.password;
+  }
+  if (sources.password_file) {
+    return readPasswordFile(sources.password_file, describePasswordSource(sources) as string);
+  }
+  if (sources.credential_helper) {
+    return runCredentialHelper(
+      sources.credential_helper,
+      describePasswordSource(sources) as string,
+      sources.username,
+    );
+  }
+  return undefined;
+}
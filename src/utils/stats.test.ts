@@ -0,0 +1,68 @@
+import { computeUserStats, getPeriodStart } from './stats';
+
+const link = (overrides: Record<string, unknown>) => ({
+  id: 'link',
+  url: 'https://example.com',
+  title: 'Example',
+  is_favorite: false,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const meta = {
+  is_default: false,
+  link_count: 0,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+describe('User stats', () => {
+  const now = new Date('2024-05-15T12:00:00Z'); // a Wednesday
+
+  describe('getPeriodStart', () => {
+    it('should return the start of the current calendar period', () => {
+      expect(getPeriodStart('day', now).toISOString()).toBe('2024-05-15T00:00:00.000Z');
+      expect(getPeriodStart('week', now).toISOString()).toBe('2024-05-13T00:00:00.000Z');
+      expect(getPeriodStart('month', now).toISOString()).toBe('2024-05-01T00:00:00.000Z');
+      expect(getPeriodStart('year', now).toISOString()).toBe('2024-01-01T00:00:00.000Z');
+    });
+  });
+
+  describe('computeUserStats', () => {
+    it('should aggregate totals, period counts and usage rankings', () => {
+      const links = [
+        link({ id: '1', is_favorite: true, collection_id: 1, tag_ids: [10, 11], created_at: '2024-05-10T00:00:00Z' }),
+        link({ id: '2', collection_id: 1, tag_ids: [10], created_at: '2024-04-30T23:59:59Z' }),
+        link({ id: '3', is_archived: true, collection_id: 2, tag_ids: [] }),
+      ];
+      const collections = [
+        { ...meta, id: 1, name: 'Work' },
+        { ...meta, id: 2, name: 'Personal' },
+      ];
+      const tags = [
+        { ...meta, id: 10, name: 'ml' },
+        { ...meta, id: 11, name: 'python' },
+      ];
+
+      const stats = computeUserStats(links, collections, tags, 'month', now);
+
+      expect(stats).toEqual({
+        total_links: 3,
+        total_collections: 2,
+        total_tags: 2,
+        favorite_links: 1,
+        archived_links: 1,
+        links_added_this_period: 1,
+        most_used_collections: [
+          { name: 'Work', link_count: 2 },
+          { name: 'Personal', link_count: 1 },
+        ],
+        most_used_tags: [
+          { name: 'ml', link_count: 2 },
+          { name: 'python', link_count: 1 },
+        ],
+      });
+    });
+  });
+});
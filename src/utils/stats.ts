@@ -0,0 +1,94 @@
+import {
+  LinkLibraryLink,
+  LinkLibraryCollection,
+  LinkLibraryTag,
+  LinkLibraryUserStats,
+  GetUserStatsParams,
+} from "../types";
+
+export type StatsPeriod = NonNullable<GetUserStatsParams["period"]>;
+
+export const STATS_PERIODS: StatsPeriod[] = ["day", "week", "month", "year"];
+
+// Start of the current calendar period (UTC); weeks start on Monday
+export function getPeriodStart(period: StatsPeriod, now: Date = new Date()): Date {
+  const start = new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()),
+  );
+
+  switch (period) {
+    case "day":
+      break;
+    case "week":
+      start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+      break;
+    case "month":
+      start.setUTCDate(1);
+      break;
+    case "year":
+      start.setUTCMonth(0, 1);
+      break;
+  }
+
+  return start;
+}
+
+// Bump the counter for a key
+function increment(counts: Map<number, number>, key: number): void {
+  counts.set(key, (counts.get(key) || 0) + 1);
+}
+
+// Rank names by how many links use them, most used first
+function rankByUsage(
+  counts: Map<number, number>,
+  names: Map<number, string>,
+): Array<{ name: string; link_count: number }> {
+  return Array.from(counts.entries())
+    .map(([id, count]) => ({
+      name: names.get(id) || `#${id}`,
+      link_count: count,
+    }))
+    .sort((a, b) => b.link_count - a.link_count || a.name.localeCompare(b.name));
+}
+
+// Aggregate user statistics from the full set of links, collections and tags
+export function computeUserStats(
+  links: LinkLibraryLink[],
+  collections: LinkLibraryCollection[],
+  tags: LinkLibraryTag[],
+  period: StatsPeriod,
+  now: Date = new Date(),
+): LinkLibraryUserStats {
+  const periodStart = getPeriodStart(period, now).getTime();
+  const collectionCounts = new Map<number, number>();
+  const tagCounts = new Map<number, number>();
+  let favorites = 0;
+  let archived = 0;
+  let addedThisPeriod = 0;
+
+  for (const link of links) {
+    if (link.is_favorite) favorites++;
+    if (link.is_archived) archived++;
+    if (new Date(link.created_at).getTime() >= periodStart) addedThisPeriod++;
+
+    if (link.collection_id != null) increment(collectionCounts, link.collection_id);
+    new Set(link.tag_ids || []).forEach((tagId) => increment(tagCounts, tagId));
+  }
+
+  return {
+    total_links: links.length,
+    total_collections: collections.length,
+    total_tags: tags.length,
+    favorite_links: favorites,
+    archived_links: archived,
+    links_added_this_period: addedThisPeriod,
+    most_used_collections: rankByUsage(
+      collectionCounts,
+      new Map(collections.map((c) => [c.id, c.name])),
+    ),
+    most_used_tags: rankByUsage(
+      tagCounts,
+      new Map(tags.map((t) => [t.id, t.name])),
+    ),
+  };
+}
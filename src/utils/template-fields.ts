@@ -0,0 +1,90 @@
+import { LinkLibraryCollection, LinkLibraryLink, LinkLibraryTag } from "../types";
+import type { TemplateKind } from "./templates";
+
+// The values output templates can insert for each kind of result
+
+// Placeholders available in item templates, per kind
+const LINK_FIELD_NAMES = [
+  "id", "title", "url", "summary", "summary_short", "notes", "favorite", "archived",
+  "content_type", "collection_id", "tag_ids", "created", "created_at", "updated_at",
+];
+export const FIELD_NAMES: Record<TemplateKind, string[]> = {
+  links: LINK_FIELD_NAMES,
+  link: [...LINK_FIELD_NAMES, "collection", "tags"],
+  collections: ["id", "name", "description", "color", "icon", "link_count", "is_default"],
+  tags: ["id", "name", "color", "link_count"],
+};
+
+const SUMMARY_SHORT_LENGTH = 100;
+
+function text(value: unknown): string {
+  return value === undefined || value === null ? "" : String(value);
+}
+
+// Placeholder values for one link in a list
+export function linkFields(link: LinkLibraryLink): Record<string, string> {
+  const summary = text(link.summary);
+  return {
+    id: text(link.id),
+    title: text(link.title),
+    url: text(link.url),
+    summary,
+    summary_short: summary.length > SUMMARY_SHORT_LENGTH
+      ? `${summary.substring(0, SUMMARY_SHORT_LENGTH)}...`
+      : summary,
+    notes: text(link.notes),
+    favorite: link.is_favorite ? "Favorite" : "Not favorite",
+    archived: link.is_archived ? "Archived" : "Not archived",
+    content_type: text(link.content_type),
+    collection_id: text(link.collection_id),
+    tag_ids: (link.tag_ids || []).join(", "),
+    created: text(link.created_at).substring(0, 10),
+    created_at: text(link.created_at),
+    updated_at: text(link.updated_at),
+  };
+}
+
+// Placeholder values for one link shown on its own, with collection and tag names
+export function linkDetailFields(
+  link: LinkLibraryLink,
+  collections: LinkLibraryCollection[],
+  tags: LinkLibraryTag[],
+): Record<string, string> {
+  const collection = collections.find((c) => c.id === link.collection_id);
+  const tagNames = (link.tag_ids || []).map((tagId) => {
+    const tag = tags.find((t) => t.id === tagId);
+    return tag ? `${tag.name} (#${tagId})` : `#${tagId} (unknown tag)`;
+  });
+  const hasCollection = link.collection_id !== undefined && link.collection_id !== null;
+
+  return {
+    ...linkFields(link),
+    collection: hasCollection
+      ? `${collection ? collection.name : "Unknown"} (#${link.collection_id})`
+      : "",
+    tags: tagNames.join(", "),
+  };
+}
+
+// Placeholder values for one collection
+export function collectionFields(collection: LinkLibraryCollection): Record<string, string> {
+  return {
+    id: text(collection.id),
+    name: text(collection.name),
+    description: text(collection.description),
+    color: text(collection.color),
+    icon: text(collection.icon),
+    link_count: text(collection.link_count),
+    is_default: collection.is_default ? "yes" : "no",
+  };
+}
+
+// Placeholder values for one tag
+export function tagFields(tag: LinkLibraryTag): Record<string, string> {
+  return {
+    id: text(tag.id),
+    name: text(tag.name),
+    color: text(tag.color),
+    link_count: text(tag.link_count),
+  };
+}
@@ -0,0 +1,121 @@
+import { LinkLibraryLink, LinkLibraryTag, ValidationError } from '../types';
+import { BUILT_IN_TEMPLATES } from './built-in-templates';
+import { linkDetailFields, linkFields, tagFields } from './template-fields';
+import {
+  fillTemplate,
+  getOutputTemplate,
+  parseTemplateDefinitions,
+  renderSection,
+  stripEmoji,
+} from './templates';
+
+const link: LinkLibraryLink = {
+  id: 'link-1',
+  url: 'https://example.com/article',
+  title: 'Pipes | and more',
+  summary: 'x'.repeat(120),
+  is_favorite: true,
+  collection_id: 3,
+  tag_ids: [1, 9],
+  created_at: '2024-01-02T03:04:05Z',
+  updated_at: '2024-01-03T00:00:00Z',
+};
+
+const tag: LinkLibraryTag = {
+  id: 1,
+  name: 'ai',
+  link_count: 4,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+describe('Output templates', () => {
+  describe('fillTemplate', () => {
+    it('should substitute values, fallbacks and drop optional lines', () => {
+      const template = 'A: {a}\nB: {b?}\nC: {c|none}';
+
+      expect(fillTemplate(template, { a: '1', b: '', c: '' })).toBe('A: 1\nC: none');
+      expect(fillTemplate(template, { a: '1', b: '2', c: '3' })).toBe('A: 1\nB: 2\nC: 3');
+    });
+
+    it('should escape values for markdown tables', () => {
+      expect(fillTemplate('| {a} |', { a: 'x | y\nz' }, 'markdown')).toBe('| x \\| y z |');
+    });
+  });
+
+  describe('built-in styles', () => {
+    it('should keep the detailed layout with a truncated summary', () => {
+      const text = renderSection(BUILT_IN_TEMPLATES.detailed, 'links', [linkFields(link)]);
+
+      expect(text).toBe(
+        'Found 1 links:\n\n' +
+          '📌 Pipes | and more\n🆔 link-1\n🔗 https://example.com/article\n' +
+          `📝 ${'x'.repeat(100)}...\n⭐ Favorite\n📅 2024-01-02\n---\n`,
+      );
+    });
+
+    it('should render one line per link in compact style', () => {
+      const text = renderSection(BUILT_IN_TEMPLATES.compact, 'links', [linkFields(link), linkFields(link)]);
+
+      expect(text.split('\n')).toHaveLength(3);
+      expect(text).toContain('- [link-1] Pipes | and more — https://example.com/article');
+    });
+
+    it('should render escaped rows in markdown-table style', () => {
+      const text = renderSection(BUILT_IN_TEMPLATES['markdown-table'], 'links', [linkFields(link)]);
+
+      expect(text.split('\n')[2]).toBe(
+        '| link-1 | Pipes \\| and more | https://example.com/article | Favorite | 2024-01-02 |',
+      );
+    });
+
+    it('should render plain output without emoji', () => {
+      const text = renderSection(BUILT_IN_TEMPLATES.plain, 'tags', [tagFields(tag)]);
+
+      expect(text).toBe('Found 1 tags:\n\nai\n  Color: default\n  Links: 4\n');
+      expect(BUILT_IN_TEMPLATES.plain.emoji).toBe(false);
+    });
+
+    it('should use the empty message when there are no items', () => {
+      expect(renderSection(BUILT_IN_TEMPLATES.compact, 'tags', [])).toBe('No tags found.');
+    });
+
+    it('should name the collection and tags of a single link', () => {
+      const fields = linkDetailFields(link, [], [tag]);
+
+      expect(fields.collection).toBe('Unknown (#3)');
+      expect(fields.tags).toBe('ai (#1), #9 (unknown tag)');
+    });
+  });
+
+  describe('parseTemplateDefinitions', () => {
+    it('should merge user sections over the extended style', () => {
+      const templates = parseTemplateDefinitions({
+        bullets: { extends: 'compact', emoji: false, links: { item: '* {title} <{url}>' } },
+      });
+
+      expect(templates.bullets.emoji).toBe(false);
+      expect(templates.bullets.links.header).toBe(BUILT_IN_TEMPLATES.compact.links.header);
+      expect(renderSection(templates.bullets, 'links', [linkFields(link)]))
+        .toBe('1 links:\n* Pipes | and more <https://example.com/article>');
+      expect(templates.bullets.tags).toEqual(BUILT_IN_TEMPLATES.compact.tags);
+    });
+
+    it('should reject unknown placeholders, sections and parent styles', () => {
+      expect(() => parseTemplateDefinitions({ bad: { links: { item: '{nope}' } } }))
+        .toThrow('unknown placeholder {nope}');
+      expect(() => parseTemplateDefinitions({ bad: { widgets: { item: '{id}' } } }))
+        .toThrow('unknown section "widgets"');
+      expect(() => parseTemplateDefinitions({ bad: { extends: 'fancy' } }))
+        .toThrow('extends unknown style "fancy"');
+    });
+  });
+
+  it('should report unknown styles as validation errors', () => {
+    expect(() => getOutputTemplate('fancy')).toThrow(ValidationError);
+  });
+
+  it('should strip emoji and the space after them', () => {
+    expect(stripEmoji('✅ Tag "ai" deleted. 🏷️ done')).toBe('Tag "ai" deleted. done');
+  });
+});
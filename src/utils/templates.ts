@@ -0,0 +1,232 @@
+import { readFileSync } from "fs";
+import { ValidationError } from "../types";
+import { BUILT_IN_TEMPLATES } from "./built-in-templates";
+import { FIELD_NAMES } from "./template-fields";
+
+// Output styles for tool results. Each style is a set of text templates, one
+// per kind of result, filled in with {placeholders}:
+//   {field}           the field's value
+//   {field?}          the value; the whole line is dropped when it is empty
+//   {field|fallback}  the value, or the fallback text when it is empty
+
+export type TemplateKind = "links" | "link" | "collections" | "tags";
+
+export interface SectionTemplate {
+  // Printed before the items; may use {count}
+  header?: string;
+  // Printed once per item
+  item: string;
+  // Printed between items
+  separator?: string;
+  // Printed after the items; may use {count}
+  footer?: string;
+  // Printed instead of everything else when there are no items
+  empty?: string;
+}
+
+export interface OutputTemplate {
+  // When false, emoji are also removed from text that isn't templated (confirmations, stats, errors)
+  emoji: boolean;
+  // "markdown" escapes pipes and newlines in values so they fit in a table cell
+  escape?: "markdown";
+  links: SectionTemplate;
+  link: SectionTemplate;
+  collections: SectionTemplate;
+  tags: SectionTemplate;
+}
+
+// The style used when neither the call nor OUTPUT_STYLE picks one
+export const DEFAULT_OUTPUT_STYLE = "detailed";
+
+const TEMPLATE_KINDS: TemplateKind[] = ["links", "link", "collections", "tags"];
+
+const PLACEHOLDER_PATTERN = /\{(\w+)(\?|\|[^}]*)?\}/g;
+
+// Emoji plus any variation selector and the space that usually follows them
+const EMOJI_PATTERN = /(?:\p{Extended_Pictographic}|[\u{1F1E6}-\u{1F1FF}])️?[ \t]?/gu;
+
+let registeredTemplates: Record<string, OutputTemplate> = { ...BUILT_IN_TEMPLATES };
+
+function escapeValue(value: string, escape?: "markdown"): string {
+  return escape === "markdown"
+    ? value.replace(/\|/g, "\\|").replace(/\r?\n/g, " ")
+    : value;
+}
+
+// Fill a template line by line, dropping lines whose {field?} placeholders are empty
+export function fillTemplate(
+  template: string,
+  fields: Record<string, string>,
+  escape?: "markdown",
+): string {
+  return template
+    .split("\n")
+    .map((line) => {
+      let dropLine = false;
+      const filled = line.replace(PLACEHOLDER_PATTERN, (_match, name: string, modifier?: string) => {
+        const value = escapeValue(fields[name] ?? "", escape);
+        if (value) return value;
+        if (modifier === "?") dropLine = true;
+        return modifier?.startsWith("|") ? modifier.slice(1) : "";
+      });
+      return dropLine ? null : filled;
+    })
+    .filter((line): line is string => line !== null)
+    .join("\n");
+}
+
+// Render a list of items (or a single one) with the given style
+export function renderSection(
+  template: OutputTemplate,
+  kind: TemplateKind,
+  items: Array<Record<string, string>>,
+): string {
+  const section = template[kind];
+  const counts = { count: items.length.toString() };
+
+  if (items.length === 0 && section.empty !== undefined) {
+    return fillTemplate(section.empty, counts);
+  }
+
+  const body = items
+    .map((fields) => fillTemplate(section.item, fields, template.escape))
+    .join(section.separator ?? "");
+
+  return `${fillTemplate(section.header ?? "", counts)}${body}${fillTemplate(section.footer ?? "", counts)}`;
+}
+
+// Remove emoji from free text, for styles that ask for plain output
+export function stripEmoji(value: string): string {
+  return value.replace(EMOJI_PATTERN, "");
+}
+
+function checkPlaceholders(template: string, allowed: string[], where: string): void {
+  for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!allowed.includes(match[1])) {
+      throw new Error(`${where} uses unknown placeholder {${match[1]}}. Available: ${allowed.join(", ")}`);
+    }
+  }
+}
+
+function resolveSection(
+  base: SectionTemplate,
+  override: unknown,
+  kind: TemplateKind,
+  where: string,
+): SectionTemplate {
+  if (override === undefined) return base;
+  if (!override || typeof override !== "object" || Array.isArray(override)) {
+    throw new Error(`${where} must be an object`);
+  }
+
+  const section: SectionTemplate = { ...base, ...(override as Partial<SectionTemplate>) };
+  for (const [key, value] of Object.entries(section)) {
+    if (!["header", "item", "separator", "footer", "empty"].includes(key)) {
+      throw new Error(`${where} has unknown key "${key}"`);
+    }
+    if (typeof value !== "string") {
+      throw new Error(`${where}.${key} must be a string`);
+    }
+  }
+
+  checkPlaceholders(section.item, FIELD_NAMES[kind], `${where}.item`);
+  for (const key of ["header", "footer", "empty"] as const) {
+    checkPlaceholders(section[key] ?? "", ["count"], `${where}.${key}`);
+  }
+
+  return section;
+}
+
+function checkStyleOptions(name: string, emoji: unknown, escape: unknown, sectionNames: string[]): void {
+  if (emoji !== undefined && typeof emoji !== "boolean") {
+    throw new Error(`Output template "${name}".emoji must be true or false`);
+  }
+  if (escape !== undefined && escape !== "markdown" && escape !== null) {
+    throw new Error(`Output template "${name}".escape must be "markdown" or null`);
+  }
+
+  const unknownSection = sectionNames.find((key) => !TEMPLATE_KINDS.includes(key as TemplateKind));
+  if (unknownSection) {
+    throw new Error(`Output template "${name}" has unknown section "${unknownSection}"`);
+  }
+}
+
+// Resolve one user-supplied style against the styles defined so far
+function resolveTemplate(
+  name: string,
+  definition: unknown,
+  resolved: Record<string, OutputTemplate>,
+): OutputTemplate {
+  if (!definition || typeof definition !== "object" || Array.isArray(definition)) {
+    throw new Error(`Output template "${name}" must be an object`);
+  }
+
+  const { extends: parentName = DEFAULT_OUTPUT_STYLE, emoji, escape, ...sections } =
+    definition as Record<string, unknown>;
+  const parent = typeof parentName === "string" ? resolved[parentName] : undefined;
+  if (!parent) {
+    throw new Error(`Output template "${name}" extends unknown style "${String(parentName)}"`);
+  }
+  checkStyleOptions(name, emoji, escape, Object.keys(sections));
+
+  const template: OutputTemplate = {
+    ...parent,
+    emoji: typeof emoji === "boolean" ? emoji : parent.emoji,
+    escape: escape === undefined ? parent.escape : (escape as "markdown" | null) ?? undefined,
+  };
+  for (const kind of TEMPLATE_KINDS) {
+    template[kind] = resolveSection(parent[kind], sections[kind], kind, `Output template "${name}".${kind}`);
+  }
+
+  return template;
+}
+
+// Validate user-supplied template definitions and resolve them against the styles they extend.
+// Each definition may set "extends" (default "detailed"), "emoji", "escape" and any of the
+// sections; sections are merged key by key over the extended style.
+export function parseTemplateDefinitions(
+  raw: unknown,
+  base: Record<string, OutputTemplate> = BUILT_IN_TEMPLATES,
+): Record<string, OutputTemplate> {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error("Output templates must be a JSON object keyed by style name");
+  }
+
+  const resolved: Record<string, OutputTemplate> = { ...base };
+  for (const [name, definition] of Object.entries(raw as Record<string, unknown>)) {
+    resolved[name] = resolveTemplate(name, definition, resolved);
+  }
+
+  return resolved;
+}
+
+// Load user templates from a JSON file, adding them to the built-in styles
+export function loadTemplatesFile(filePath: string): string[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(filePath, "utf8"));
+  } catch (error) {
+    throw new Error(
+      `Could not read output templates from ${filePath}: ${error instanceof Error ? error.message : "Unknown error"}`,
+    );
+  }
+
+  registeredTemplates = parseTemplateDefinitions(raw);
+  return Object.keys(registeredTemplates);
+}
+
+// Names of every available style
+export function getOutputStyles(): string[] {
+  return Object.keys(registeredTemplates);
+}
+
+// Look up a style by name
+export function getOutputTemplate(style: string): OutputTemplate {
+  const template = registeredTemplates[style];
+  if (!template) {
+    throw new ValidationError(
+      `Unknown output style "${style}". Available: ${getOutputStyles().join(", ")}`,
+    );
+  }
+  return template;
+}
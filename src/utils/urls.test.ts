@@ -0,0 +1,111 @@
+import {
+  canonicalizeUrl,
+  extractUrls,
+  normalizeUrl,
+  stripTrackingParams,
+  titleFromUrl,
+} from './urls';
+
+describe('URL utilities', () => {
+  describe('normalizeUrl', () => {
+    it('should drop fragments and lowercase the host', () => {
+      expect(normalizeUrl('https://Example.COM/Path#section')).toBe('https://example.com/Path');
+    });
+
+    it('should add a scheme to www. URLs', () => {
+      expect(normalizeUrl('www.example.com/a')).toBe('https://www.example.com/a');
+    });
+
+    it('should reject invalid and non-http URLs', () => {
+      expect(normalizeUrl('not a url')).toBeNull();
+      expect(normalizeUrl('ftp://example.com/file')).toBeNull();
+    });
+  });
+
+  describe('stripTrackingParams', () => {
+    it('should remove default tracking parameters and keep the rest', () => {
+      expect(stripTrackingParams('https://example.com/a?utm_source=x&utm_medium=y&id=7&fbclid=abc'))
+        .toBe('https://example.com/a?id=7');
+    });
+
+    it('should apply custom rules', () => {
+      expect(stripTrackingParams('https://example.com/a?src=feed&id=7', ['src']))
+        .toBe('https://example.com/a?id=7');
+      expect(stripTrackingParams('https://example.com/a?utm_source=x', ['src']))
+        .toBe('https://example.com/a?utm_source=x');
+    });
+  });
+
+  describe('canonicalizeUrl', () => {
+    it('should treat scheme, www, trailing slash and tracking variants as the same page', () => {
+      const variants = [
+        'https://example.com/article',
+        'http://example.com/article/',
+        'https://www.example.com/article?utm_campaign=news',
+        'HTTPS://WWW.EXAMPLE.COM/article#comments',
+      ];
+
+      const keys = new Set(variants.map((url) => canonicalizeUrl(url)));
+
+      expect(keys).toEqual(new Set(['https://example.com/article']));
+    });
+
+    it('should ignore query parameter order but keep meaningful parameters', () => {
+      expect(canonicalizeUrl('https://example.com/p?b=2&a=1'))
+        .toBe(canonicalizeUrl('https://example.com/p?a=1&b=2'));
+      expect(canonicalizeUrl('https://example.com/p?id=1'))
+        .not.toBe(canonicalizeUrl('https://example.com/p?id=2'));
+    });
+
+    it('should return null for invalid URLs', () => {
+      expect(canonicalizeUrl('not a url')).toBeNull();
+    });
+  });
+
+  describe('extractUrls', () => {
+    it('should extract plain, markdown and angle-bracket URLs', () => {
+      const text = [
+        'See https://example.com/one.',
+        'Also [The Two](https://example.com/two) and <https://example.com/three>.',
+        'Slack said <https://example.com/four|four>',
+      ].join('\n');
+
+      expect(extractUrls(text)).toEqual([
+        { url: 'https://example.com/two', label: 'The Two' },
+        { url: 'https://example.com/three', label: undefined },
+        { url: 'https://example.com/four', label: 'four' },
+        { url: 'https://example.com/one', label: undefined },
+      ]);
+    });
+
+    it('should deduplicate URLs with the same canonical form', () => {
+      const urls = extractUrls('https://example.com/a?utm_source=x and http://www.example.com/a/');
+
+      expect(urls).toEqual([{ url: 'https://example.com/a', label: undefined }]);
+    });
+
+    it('should deduplicate URLs that only differ by fragment', () => {
+      const urls = extractUrls('https://example.com/a#x and https://example.com/a#y');
+
+      expect(urls).toHaveLength(1);
+      expect(urls[0].url).toBe('https://example.com/a');
+    });
+
+    it('should strip unbalanced trailing brackets from prose', () => {
+      const urls = extractUrls('(see https://en.wikipedia.org/wiki/Foo_(bar))');
+
+      expect(urls.map((u) => u.url)).toEqual(['https://en.wikipedia.org/wiki/Foo_(bar)']);
+    });
+
+    it('should return an empty list when there are no URLs', () => {
+      expect(extractUrls('nothing to see here')).toEqual([]);
+    });
+  });
+
+  describe('titleFromUrl', () => {
+    it('should combine host and path', () => {
+      expect(titleFromUrl('https://example.com/blog/post')).toBe('example.com/blog/post');
+      expect(titleFromUrl('https://example.com/')).toBe('example.com');
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import { urlConfig } from "../config";
+
+// URL extraction, normalization and canonicalization helpers
+
+// A URL found in free text, with the label it was given (if any)
+export interface ExtractedUrl {
+  url: string;
+  label?: string;
+}
+
+// [label](https://...)
+const MARKDOWN_LINK_PATTERN = /\[([^\]]*)\]\((https?:\/\/[^\s)]+)\)/gi;
+
+// <https://...> and Slack-style <https://...|label>
+const ANGLE_BRACKET_PATTERN = /<(https?:\/\/[^\s<>|]+)(?:\|([^>]*))?>/gi;
+
+// Bare https://... or www.... URLs
+const PLAIN_URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>"'`]+/gi;
+
+// Punctuation that usually ends a sentence rather than a URL
+const TRAILING_PUNCTUATION = /[.,;:!?'"]+$/;
+
+// Normalize a URL for comparison: valid http(s) only, no fragment, lowercase host
+export function normalizeUrl(rawUrl: string): string | null {
+  const candidate = /^www\./i.test(rawUrl) ? `https://${rawUrl}` : rawUrl;
+
+  let parsed: URL;
+  try {
+    parsed = new URL(candidate);
+  } catch {
+    return null;
+  }
+
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    return null;
+  }
+
+  parsed.hash = "";
+  return parsed.toString();
+}
+
+// Check whether a query parameter matches one of the strip rules ("utm_*" style prefixes allowed)
+function matchesStripRule(param: string, rules: string[]): boolean {
+  const name = param.toLowerCase();
+  return rules.some((rule) => {
+    const pattern = rule.toLowerCase();
+    return pattern.endsWith("*")
+      ? name.startsWith(pattern.slice(0, -1))
+      : name === pattern;
+  });
+}
+
+// Clean a URL for saving: normalized, with tracking parameters removed
+export function stripTrackingParams(
+  rawUrl: string,
+  rules: string[] = urlConfig.strip_params,
+): string | null {
+  const normalized = normalizeUrl(rawUrl);
+  if (!normalized) return null;
+
+  const parsed = new URL(normalized);
+  for (const param of Array.from(parsed.searchParams.keys())) {
+    if (matchesStripRule(param, rules)) {
+      parsed.searchParams.delete(param);
+    }
+  }
+
+  return parsed.toString();
+}
+
+// Build the comparison key for duplicate detection. Two URLs with the same
+// canonical form point at the same page: scheme, "www.", trailing slashes,
+// tracking parameters and query parameter order are all ignored.
+export function canonicalizeUrl(
+  rawUrl: string,
+  rules: string[] = urlConfig.strip_params,
+): string | null {
+  const cleaned = stripTrackingParams(rawUrl, rules);
+  if (!cleaned) return null;
+
+  const parsed = new URL(cleaned);
+  const host = parsed.host.replace(/^www\./, "");
+  const path = parsed.pathname.replace(/\/+$/, "");
+  parsed.searchParams.sort();
+  const query = parsed.searchParams.toString();
+
+  return `https://${host}${path}${query ? `?${query}` : ""}`;
+}
+
+// Drop trailing punctuation and unbalanced closing brackets picked up from prose
+function trimPlainUrl(rawUrl: string): string {
+  let url = rawUrl.replace(TRAILING_PUNCTUATION, "");
+
+  for (const [open, close] of [
+    ["(", ")"],
+    ["[", "]"],
+    ["{", "}"],
+  ]) {
+    while (
+      url.endsWith(close) &&
+      url.split(close).length > url.split(open).length
+    ) {
+      url = url.slice(0, -1).replace(TRAILING_PUNCTUATION, "");
+    }
+  }
+
+  return url;
+}
+
+// Extract every http(s) URL from free text, cleaned and deduplicated by canonical form
+export function extractUrls(text: string): ExtractedUrl[] {
+  const results = new Map<string, ExtractedUrl>();
+  let remaining = text;
+
+  const add = (rawUrl: string, label?: string) => {
+    const url = stripTrackingParams(rawUrl);
+    const key = url && canonicalizeUrl(url);
+    if (!url || !key) return;
+
+    const existing = results.get(key);
+    if (!existing) {
+      results.set(key, { url, label: label?.trim() || undefined });
+    } else if (!existing.label && label?.trim()) {
+      existing.label = label.trim();
+    }
+  };
+
+  // Bracketed forms first, blanking them out so the plain pass doesn't see them again
+  remaining = remaining.replace(MARKDOWN_LINK_PATTERN, (_match, label, url) => {
+    add(url, label);
+    return " ";
+  });
+  remaining = remaining.replace(ANGLE_BRACKET_PATTERN, (_match, url, label) => {
+    add(url, label);
+    return " ";
+  });
+
+  for (const match of remaining.match(PLAIN_URL_PATTERN) || []) {
+    add(trimPlainUrl(match));
+  }
+
+  return Array.from(results.values());
+}
+
+// Build a readable fallback title from a URL
+export function titleFromUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    const path = parsed.pathname === "/" ? "" : parsed.pathname;
+    return `${parsed.hostname}${path}`;
+  } catch {
+    return url;
+  }
+}